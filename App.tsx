@@ -7,12 +7,32 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Loader, useProgress } from '@react-three/drei';
-import { GameStatus, NoteData, Difficulty, Theme } from './types';
-import { SONG_URL, SONG_BPM, DIFFICULTY_SETTINGS, THEME_PALETTES, generateChart } from './constants';
-import { useMediaPipe } from './hooks/useMediaPipe';
+import { GameStatus, NoteData, ObstacleData, Difficulty, Modifier, Theme, CutOutcome, CutScore, ReplayData, InputMode, ScoreRecord, Song, PracticeSettings, PauseReason } from './types';
+import { SONG_URL, DIFFICULTY_SETTINGS, THEME_PALETTES, BOMB_HEALTH_PENALTY, INPUT_MODES, MODIFIERS, PAUSE_REASONS, RESUME_COUNTDOWN, RESUME_REWIND } from './constants';
+import { useInputProvider } from './hooks/useInputProvider';
+import { STAGE_LABELS } from './hooks/useMediaPipe';
+import { useSettings } from './hooks/useSettings';
+import { useScores } from './hooks/useScores';
+import { useSongLibrary } from './hooks/useSongLibrary';
+import { useAutoPause } from './hooks/useAutoPause';
 import GameScene from './components/GameScene';
 import WebcamPreview from './components/WebcamPreview';
-import { Play, RefreshCw, VideoOff, Hand, Sparkles, Pause, X, PlayCircle, Activity, Zap, Trophy, Skull, Palette } from 'lucide-react';
+import MotionFilterControls from './components/MotionFilterControls';
+import ChartEditor from './components/ChartEditor';
+import CalibrationScreen from './components/CalibrationScreen';
+import Leaderboard from './components/Leaderboard';
+import ResultsAnalytics from './components/ResultsAnalytics';
+import SongSelect from './components/SongSelect';
+import { parseBeatmap, parseBeatmapObstacles, serializeBeatmap } from './utils/beatmap';
+import { downloadJson, downloadFile } from './utils/download';
+import { createSessionLog, summarizeSession, sessionToCsv, SessionLog, SessionSummary } from './utils/sessionStats';
+import { leaderboard, personalBest } from './utils/scoreStore';
+import { BUILT_IN_SONG, difficultiesOf, isSameChart, isSongImport } from './utils/songLibrary';
+import { formatBpm } from './utils/tempoMap';
+import { practiceAudioStart } from './utils/practice';
+import { applyModifiers, toggleModifier, scoreMultiplier, formatMultiplier, formatModifiers, songSpeed } from './utils/modifiers';
+import { createReplayRecorder, createReplayPlayer, parseReplay, isReplayFile, ReplayRecorder, ReplayPlayer } from './utils/replay';
+import { Play, RefreshCw, VideoOff, Hand, Sparkles, Pause, X, PlayCircle, Activity, Zap, Trophy, Skull, Palette, Upload, Download, Music, Pencil, Timer, Film, Save, Medal } from 'lucide-react';
 
 const App: React.FC = () => {
   const [gameStatus, setGameStatus] = useState<GameStatus>(GameStatus.LOADING);
@@ -20,71 +40,180 @@ const App: React.FC = () => {
   const [combo, setCombo] = useState(0);
   const [multiplier, setMultiplier] = useState(1);
   const [health, setHealth] = useState(100);
+  // Set when the run paused itself rather than through the pause button
+  const [pauseReason, setPauseReason] = useState<PauseReason | null>(null);
+  // Seconds left before a resumed run plays again; null when not resuming
+  const [countdown, setCountdown] = useState<number | null>(null);
+  // Bumped on every bomb hit to replay the damage flash
+  const [bombFlashKey, setBombFlashKey] = useState(0);
   
   // Game Settings
   const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.MEDIUM);
   const [theme, setTheme] = useState<Theme>(Theme.NEON);
+  // Picked on the menu; runModifiers are the ones the current (or last) run plays with
+  const [modifiers, setModifiers] = useState<Modifier[]>([]);
+  const [runModifiers, setRunModifiers] = useState<Modifier[]>([]);
+  // Likewise for practice: set on the song-select screen, null for a normal run
+  const [practice, setPractice] = useState<PracticeSettings | null>(null);
+  const [runPractice, setRunPractice] = useState<PracticeSettings | null>(null);
   const [chart, setChart] = useState<NoteData[]>([]);
+  const [obstacles, setObstacles] = useState<ObstacleData[]>([]);
+  // Current song from the library
+  const [song, setSong] = useState<Song>(BUILT_IN_SONG);
+  // Chart loaded from a beatmap file; overrides the generated chart when set
+  const [customChart, setCustomChart] = useState<{ name: string; notes: NoteData[]; obstacles: ObstacleData[] } | null>(null);
+  const [chartError, setChartError] = useState<string | null>(null);
+  // Set while a recorded session is being played back instead of live tracking
+  const [replayPlayer, setReplayPlayer] = useState<ReplayPlayer | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
 
   const audioRef = useRef<HTMLAudioElement>(new Audio(SONG_URL));
   const videoRef = useRef<HTMLVideoElement>(null);
+  const chartInputRef = useRef<HTMLInputElement>(null);
+  const audioUrlRef = useRef<string | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  // Recorder of the current (or last) live session
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  // Combo is mirrored in a ref so several hits in one frame see each other's updates
+  const comboRef = useRef(0);
+  // Run modifiers mirrored for the hit and health handlers, which are created once
+  const runModifiersRef = useRef<Modifier[]>([]);
+  const runPracticeRef = useRef<PracticeSettings | null>(null);
+  // Song time the run was paused at, where a resume rewinds from
+  const pausedAtRef = useRef(0);
+  // Every judged note of the current run, for the results screen and score history
+  const sessionLogRef = useRef<SessionLog>(createSessionLog());
+  const [sessionSummary, setSessionSummary] = useState<SessionSummary | null>(null);
+  const scoresInputRef = useRef<HTMLInputElement>(null);
+  // The last live run as saved, with the best it was up against
+  const [lastRun, setLastRun] = useState<{ record: ScoreRecord; previousBest: ScoreRecord | null } | null>(null);
   
-  // Now getting lastResultsRef from the hook
-  const { isCameraReady, handPositionsRef, lastResultsRef, error: cameraError } = useMediaPipe(videoRef);
+  const { settings, updateSettings } = useSettings();
+  const { songs, isImporting, error: songError, importFiles: importSongFiles, removeSong } = useSongLibrary();
+  const { scores, error: scoresError, addScore, importFile: importScoresFile, exportFile: exportScoresFile } = useScores();
+  // Sabers come from whichever input the player picked; lastResultsRef feeds the webcam preview
+  const { isReady: isInputReady, error: inputError, handPositionsRef, headPositionRef, calibrate, lastResultsRef, handAssignmentsRef, isCameraReady, trackingStage } = useInputProvider(settings, videoRef);
 
   // Derived colors based on current theme
   const colors = THEME_PALETTES[theme];
+  const playbackRate = songSpeed(runModifiers) * (runPractice?.speed ?? 1);
 
   // Game Logic Handlers
-  const handleNoteHit = useCallback((note: NoteData, goodCut: boolean) => {
-     let points = 100;
-     if (goodCut) points += 50; 
+  const multiplierFor = (c: number) => c > 30 ? 8 : c > 20 ? 4 : c > 10 ? 2 : 1;
 
+  const resetCombo = () => {
+      comboRef.current = 0;
+      setCombo(0);
+      setMultiplier(1);
+  };
+
+  const handleNoteHit = useCallback((note: NoteData, cut: CutScore) => {
      // Haptic feedback for impact
      if (navigator.vibrate) {
-         navigator.vibrate(goodCut ? 40 : 20);
+         navigator.vibrate(cut.outcome === CutOutcome.GOOD ? 40 : cut.outcome === CutOutcome.WRONG_DIRECTION ? [30, 40, 30] : 20);
+     }
+
+     // Cutting against the arrow scores nothing, breaks the combo and chips health (never fatal, none in practice)
+     if (cut.outcome === CutOutcome.WRONG_DIRECTION) {
+         resetCombo();
+         sessionLogRef.current.recordHit(note, cut, 0, 0);
+         if (!runPracticeRef.current) setHealth(h => Math.max(1, h - 5));
+         return;
      }
 
-     setCombo(c => {
-       const newCombo = c + 1;
-       if (newCombo > 30) setMultiplier(8);
-       else if (newCombo > 20) setMultiplier(4);
-       else if (newCombo > 10) setMultiplier(2);
-       else setMultiplier(1);
-       return newCombo;
-     });
+     // Up to 115 per note: pre-swing + follow-through + center accuracy
+     const points = cut.total;
+
+     // The hit is scored at the multiplier earned before it, scaled by the run's modifiers
+     const appliedMultiplier = multiplierFor(comboRef.current);
+     const gained = Math.round(points * appliedMultiplier * scoreMultiplier(runModifiersRef.current));
+     comboRef.current += 1;
+     sessionLogRef.current.recordHit(note, cut, gained, comboRef.current);
+     setCombo(comboRef.current);
+     setMultiplier(multiplierFor(comboRef.current));
 
-     setScore(s => s + (points * multiplier));
+     setScore(s => s + gained);
      setHealth(h => Math.min(100, h + 2));
-  }, [multiplier]);
+  }, []);
 
-  const handleNoteMiss = useCallback((note: NoteData) => {
-      setCombo(0);
-      setMultiplier(1);
+  // Running out of health ends the run, unless No Fail holds it at zero. Practice has no health.
+  const drainHealth = (amount: number) => {
+      if (runPracticeRef.current) return;
       setHealth(h => {
-          const newHealth = h - 15;
+          if (h <= 0) return 0;
+          const newHealth = h - amount;
           if (newHealth <= 0) {
-             setTimeout(() => endGame(false), 0);
+             if (!runModifiersRef.current.includes(Modifier.NO_FAIL)) setTimeout(() => endGame(false), 0);
              return 0;
           }
           return newHealth;
       });
+  };
+
+  const handleNoteMiss = useCallback((note: NoteData) => {
+      sessionLogRef.current.recordMiss(note);
+      resetCombo();
+      drainHealth(15);
+  }, []);
+
+  const handleBombHit = useCallback((note: NoteData) => {
+      if (navigator.vibrate) {
+          navigator.vibrate([80, 40, 80]);
+      }
+      setBombFlashKey(k => k + 1);
+      resetCombo();
+      drainHealth(BOMB_HEALTH_PENALTY);
+  }, []);
+
+  // Standing inside a wall drains health continuously and holds the combo at zero
+  const handleObstacleHit = useCallback((obstacle: ObstacleData, damage: number) => {
+      resetCombo();
+      drainHealth(damage);
   }, []);
 
   const startGame = async () => {
-    if (!isCameraReady) return;
+    if (!isInputReady) return;
     
     setScore(0);
-    setCombo(0);
-    setMultiplier(1);
+    resetCombo();
     setHealth(100);
+    sessionLogRef.current = createSessionLog();
 
-    const newChart = generateChart(difficulty);
+    const { notes: newChart, obstacles: newObstacles } = applyModifiers({ notes: getChart(difficulty), obstacles: getObstacles(difficulty) }, modifiers);
     setChart(newChart);
+    setObstacles(newObstacles);
+    beginRun(modifiers, practice);
+    // The player's stance when pressing start is neutral: standing height for wall dodging
+    // and the hand depth that counts as the player plane
+    calibrate();
 
+    setReplayPlayer(null);
+    // Practice runs are not recorded
+    recorderRef.current = practice ? null : createReplayRecorder({
+        song: { id: song.id, title: song.title, bpm: song.tempo.tempos[0].bpm },
+        difficulty,
+        modifiers,
+        theme,
+        settings,
+        chart: newChart,
+        obstacles: newObstacles
+    });
+
+    await playFromStart(practice ? practiceAudioStart(practice) : 0);
+  };
+
+  const beginRun = (active: Modifier[], practiceRun: PracticeSettings | null) => {
+      runModifiersRef.current = active;
+      runPracticeRef.current = practiceRun;
+      setRunModifiers(active);
+      setRunPractice(practiceRun);
+      audioRef.current.playbackRate = songSpeed(active) * (practiceRun?.speed ?? 1);
+  };
+
+  const playFromStart = async (from = 0) => {
     try {
       if (audioRef.current) {
-          audioRef.current.currentTime = 0;
+          audioRef.current.currentTime = from;
           await audioRef.current.play();
           setGameStatus(GameStatus.PLAYING);
       }
@@ -94,21 +223,210 @@ const App: React.FC = () => {
     }
   };
 
-  const togglePause = () => {
-      if (gameStatus === GameStatus.PLAYING) {
-          audioRef.current.pause();
-          setGameStatus(GameStatus.PAUSED);
-      } else if (gameStatus === GameStatus.PAUSED) {
-          audioRef.current.play();
-          setGameStatus(GameStatus.PLAYING);
+  // Play a recorded session back through the scene in place of live tracking
+  const startReplay = async (data: ReplayData) => {
+      // The song's audio is not part of the replay, so it has to be loaded already
+      if (data.song.id !== song.id) {
+          const recordedSong = songs.find(s => s.id === data.song.id);
+          if (!recordedSong) {
+              setReplayError(`Recorded on "${data.song.title}". Import that song first.`);
+              return;
+          }
+          selectSong(recordedSong);
+      }
+      setReplayError(null);
+
+      setScore(0);
+      resetCombo();
+      setHealth(100);
+      sessionLogRef.current = createSessionLog();
+      setDifficulty(data.difficulty);
+      setTheme(data.theme);
+      // The recorded chart already has One Hand and Mirror applied
+      beginRun(data.modifiers, null);
+      // Fresh array so the scene resets even when rewatching the same replay
+      setChart([...data.chart]);
+      setObstacles(data.obstacles);
+      setReplayPlayer(createReplayPlayer(data));
+
+      await playFromStart();
+  };
+
+  const importReplay = async (file: File) => {
+      try {
+          await startReplay(parseReplay(await file.text()));
+      } catch (e: any) {
+          console.error("Replay import failed", e);
+          setReplayError(e.message);
+      }
+  };
+
+  const saveReplay = () => {
+      if (!recorderRef.current) return;
+      const replay = recorderRef.current.finish(score);
+      const stamp = replay.recordedAt.slice(0, 19).replace(/[:T]/g, '-');
+      // Replays hold thousands of frames, so skip the pretty-printing
+      downloadFile(`cyber-blade-replay-${stamp}.json`, JSON.stringify(replay));
+  };
+
+  const exportSession = (format: 'csv' | 'json') => {
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+      const results = sessionLogRef.current.results;
+      if (format === 'csv') downloadFile(`cyber-blade-session-${stamp}.csv`, sessionToCsv(results), 'text/csv');
+      else downloadJson(`cyber-blade-session-${stamp}.json`, { song: song.title, difficulty, modifiers: runModifiers, score, notes: results });
+  };
+
+  const watchReplay = () => {
+      if (recorderRef.current) startReplay(recorderRef.current.finish(score));
+  };
+
+  const getChart = (d: Difficulty): NoteData[] => {
+      if (customChart) return customChart.notes;
+      return song.charts[d]?.notes ?? [];
+  };
+
+  const getObstacles = (d: Difficulty): ObstacleData[] => {
+      if (customChart) return customChart.obstacles;
+      return song.charts[d]?.obstacles ?? [];
+  };
+
+  // Switch to a library song, keeping the difficulty if it has a chart for it
+  const selectSong = (next: Song) => {
+      if (next.audio !== song.audio) {
+          if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
+          audioUrlRef.current = typeof next.audio === 'string' ? null : URL.createObjectURL(next.audio);
+          audioRef.current.src = audioUrlRef.current ?? next.audio as string;
+      }
+      const d = next.charts[difficulty] ? difficulty : difficultiesOf(next)[0];
+      setSong(next);
+      setCustomChart(null);
+      // Practice ranges are per song
+      setPractice(null);
+      setDifficulty(d);
+      setChart(next.charts[d]?.notes ?? []);
+  };
+
+  const importSong = async (files: File[]) => {
+      const imported = await importSongFiles(files);
+      if (imported) selectSong(imported);
+  };
+
+  const deleteSong = (target: Song) => {
+      removeSong(target.id);
+      if (target.id === song.id) selectSong(BUILT_IN_SONG);
+  };
+
+  const handleFileDrop = (e: React.DragEvent) => {
+      e.preventDefault();
+      if (gameStatus !== GameStatus.IDLE && gameStatus !== GameStatus.SONG_SELECT) return;
+      const files = Array.from(e.dataTransfer.files ?? []);
+      if (files.length === 0) return;
+      if (isSongImport(files)) {
+          importSong(files);
+          return;
+      }
+      const file = files[0];
+      file.text().then(text => isReplayFile(text) ? importReplay(file) : importChart(file));
+  };
+
+  const importChart = async (file: File) => {
+      try {
+          const text = await file.text();
+          const notes = parseBeatmap(text, song.tempo);
+          if (notes.length === 0) throw new Error('Chart contains no notes');
+          setCustomChart({ name: file.name, notes, obstacles: parseBeatmapObstacles(text, song.tempo) });
+          setChartError(null);
+      } catch (e: any) {
+          console.error("Chart import failed", e);
+          setChartError(e.message);
       }
   };
 
+  const exportChart = () => {
+      downloadJson(`cyber-blade-${difficulty.toLowerCase()}.dat`, serializeBeatmap(getChart(difficulty), song.tempo, 'v3', getObstacles(difficulty)));
+  };
+
+  const openEditor = () => {
+      audioRef.current.pause();
+      audioRef.current.currentTime = 0;
+      audioRef.current.playbackRate = 1;
+      setChart(getChart(difficulty));
+      setObstacles(getObstacles(difficulty));
+      setGameStatus(GameStatus.EDITOR);
+  };
+
+  const closeEditor = (notes: NoteData[]) => {
+      audioRef.current.pause();
+      audioRef.current.currentTime = 0;
+      // Runs on custom charts are not recorded, so a chart is only custom once the edit changed it
+      if (isSameChart(notes, song.charts[difficulty]?.notes ?? [])) setCustomChart(null);
+      else if (!isSameChart(notes, getChart(difficulty))) setCustomChart({ name: 'EDITOR CHART', notes, obstacles });
+      setChart(notes);
+      setGameStatus(GameStatus.IDLE);
+  };
+
+  const pauseGame = (reason: PauseReason | null) => {
+      if (gameStatus !== GameStatus.PLAYING) return;
+      audioRef.current.pause();
+      pausedAtRef.current = audioRef.current.currentTime;
+      setPauseReason(reason);
+      setGameStatus(GameStatus.PAUSED);
+  };
+
+  // Live runs rewind a little and count down, so the player is back in position before notes
+  // arrive. A replay's frames are already played, so it only counts down.
+  const resumeGame = () => {
+      if (gameStatus !== GameStatus.PAUSED || countdown !== null) return;
+      if (!replayPlayer) {
+          audioRef.current.currentTime = Math.max(0, pausedAtRef.current - RESUME_REWIND * playbackRate);
+      }
+      setCountdown(RESUME_COUNTDOWN);
+  };
+
+  // The count holds while the tab is hidden and picks up when the player is back
+  useEffect(() => {
+      if (countdown === null) return;
+      if (countdown > 0) {
+          let timer: number | undefined;
+          const tick = () => {
+              window.clearTimeout(timer);
+              if (!document.hidden) timer = window.setTimeout(() => setCountdown(countdown - 1), 1000);
+          };
+          tick();
+          document.addEventListener('visibilitychange', tick);
+          return () => {
+              window.clearTimeout(timer);
+              document.removeEventListener('visibilitychange', tick);
+          };
+      }
+      setCountdown(null);
+      setPauseReason(null);
+      audioRef.current.play();
+      setGameStatus(GameStatus.PLAYING);
+  }, [countdown]);
+
+  // Pausing again during the countdown calls the resume off
+  const togglePause = () => {
+      if (gameStatus === GameStatus.PLAYING) pauseGame(null);
+      else if (countdown !== null) setCountdown(null);
+      else resumeGame();
+  };
+
+  useAutoPause(
+      gameStatus === GameStatus.PLAYING,
+      !replayPlayer && settings.inputMode === InputMode.WEBCAM,
+      handPositionsRef,
+      videoRef,
+      pauseGame
+  );
+
   const quitGame = () => {
+      setCountdown(null);
       if (audioRef.current) {
           audioRef.current.pause();
           audioRef.current.currentTime = 0;
       }
+      setReplayPlayer(null);
       setGameStatus(GameStatus.IDLE);
   };
 
@@ -119,22 +437,51 @@ const App: React.FC = () => {
       }
   };
 
+  // Summarize every finished run. Live runs on the song's own charts go into the score history.
+  // Replays are not new runs, and practice or a custom chart (dropped or edited) is not the song's.
   useEffect(() => {
-      console.log('Game Status:', gameStatus, 'Camera Ready:', isCameraReady);
-      if (gameStatus === GameStatus.LOADING && isCameraReady) {
+      if (gameStatus !== GameStatus.VICTORY && gameStatus !== GameStatus.GAME_OVER) return;
+      const summary = summarizeSession(sessionLogRef.current.results);
+      setSessionSummary(summary);
+      setLastRun(null);
+      if (replayPlayer || runPractice || customChart) return;
+
+      const record: ScoreRecord = {
+          songId: song.id,
+          songTitle: song.title,
+          difficulty,
+          modifiers: runModifiers,
+          score,
+          maxCombo: summary.maxCombo,
+          accuracy: summary.accuracy,
+          cleared: gameStatus === GameStatus.VICTORY,
+          date: new Date().toISOString()
+      };
+      setLastRun({ record, previousBest: personalBest(scores, song.id, difficulty) });
+      addScore(record);
+  }, [gameStatus]);
+
+  useEffect(() => {
+      console.log('Game Status:', gameStatus, 'Input Ready:', isInputReady);
+      // On an input error, go to the menu anyway so another input can be picked
+      if (gameStatus === GameStatus.LOADING && (isInputReady || inputError)) {
           setGameStatus(GameStatus.IDLE);
       }
-  }, [isCameraReady, gameStatus]);
+  }, [isInputReady, inputError, gameStatus]);
 
   // Pre-load chart to avoid empty render on first load
   useEffect(() => {
       if (chart.length === 0) {
-          setChart(generateChart(difficulty));
+          setChart(getChart(difficulty));
       }
   }, []);
 
   return (
-    <div className="relative w-full h-screen bg-black overflow-hidden font-sans">
+    <div
+      className="relative w-full h-screen bg-black overflow-hidden font-sans"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleFileDrop}
+    >
       {/* Hidden Video for Processing */}
       <video 
         ref={videoRef} 
@@ -152,11 +499,25 @@ const App: React.FC = () => {
                 gameStatus={gameStatus}
                 audioRef={audioRef}
                 handPositionsRef={handPositionsRef}
+                headPositionRef={headPositionRef}
                 chart={chart}
-                noteSpeed={DIFFICULTY_SETTINGS[difficulty].speed}
+                obstacles={obstacles}
+                tempo={song.tempo}
+                // Slowed practice keeps notes at their usual on-screen speed
+                noteSpeed={DIFFICULTY_SETTINGS[difficulty].speed / (runPractice?.speed ?? 1)}
+                // Latencies are real time; at another playback rate they span more or less of the song
+                audioOffset={settings.audioOffsetMs / 1000 * playbackRate}
+                // Judge a replay with the tracking latency it was recorded under
+                inputOffset={(replayPlayer ? replayPlayer.replay.settings : settings).inputOffsetMs / 1000 * playbackRate}
+                modifiers={runModifiers}
+                practice={runPractice}
                 colors={colors}
+                recorder={replayPlayer ? null : recorderRef.current}
+                replay={replayPlayer}
                 onNoteHit={handleNoteHit}
                 onNoteMiss={handleNoteMiss}
+                onBombHit={handleBombHit}
+                onObstacleHit={handleObstacleHit}
                 onSongEnd={() => endGame(true)}
              />
           )}
@@ -165,11 +526,15 @@ const App: React.FC = () => {
       {/* Overlay Scanlines/Vignette */}
       <div className="absolute inset-0 pointer-events-none scanline opacity-20 z-10"></div>
       <div className="absolute inset-0 pointer-events-none bg-gradient-to-t from-black/80 via-transparent to-black/80 z-0"></div>
+      {bombFlashKey > 0 && (
+          <div key={bombFlashKey} className="absolute inset-0 pointer-events-none damage-flash z-10"></div>
+      )}
 
       {/* Webcam Mini-Map Preview */}
       <WebcamPreview 
           videoRef={videoRef} 
           resultsRef={lastResultsRef} 
+          assignmentsRef={handAssignmentsRef}
           isCameraReady={isCameraReady} 
           colors={colors}
       />
@@ -201,6 +566,21 @@ const App: React.FC = () => {
                          }`}>
                              {DIFFICULTY_SETTINGS[difficulty].label.toUpperCase()}
                          </span>
+                         {runModifiers.length > 0 && (
+                             <span className="text-[10px] font-rajdhani font-bold px-2 py-0.5 rounded border border-gray-500 text-gray-300 bg-gray-900/20">
+                                 {formatModifiers(runModifiers)}
+                             </span>
+                         )}
+                         {runPractice && (
+                             <span className="text-[10px] font-rajdhani font-bold px-2 py-0.5 rounded border border-yellow-500 text-yellow-300 bg-yellow-900/20">
+                                 PRACTICE {Math.round(runPractice.speed * 100)}%
+                             </span>
+                         )}
+                         {replayPlayer && (
+                             <span className="text-[10px] font-rajdhani font-bold px-2 py-0.5 rounded border border-purple-500 text-purple-300 bg-purple-900/20 flex items-center gap-1">
+                                 <Film className="w-3 h-3" /> REPLAY
+                             </span>
+                         )}
                      </div>
                  )}
              </div>
@@ -251,21 +631,36 @@ const App: React.FC = () => {
               {gameStatus === GameStatus.PAUSED && (
                   <div className="relative bg-black/80 p-12 w-full max-w-md text-center border-y-2 border-yellow-500/50 backdrop-blur-xl cyber-clip-path">
                       <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-yellow-500 to-transparent opacity-50"></div>
-                      <h2 className="font-orbitron text-5xl font-bold text-yellow-500 mb-8 tracking-wider text-glow-white">PAUSED</h2>
-                      <div className="flex flex-col gap-6 font-rajdhani">
-                          <button 
-                              onClick={togglePause}
-                              className="cyber-button-clip bg-yellow-500/20 hover:bg-yellow-500/40 border border-yellow-500 text-yellow-100 text-2xl font-bold py-4 px-12 transition-all tracking-widest hover:text-white hover:scale-105"
-                          >
-                              RESUME
-                          </button>
-                          <button 
-                              onClick={quitGame}
-                              className="cyber-button-clip bg-red-600/20 hover:bg-red-600/40 border border-red-600 text-red-200 text-2xl font-bold py-4 px-12 transition-all tracking-widest hover:text-white hover:scale-105"
-                          >
-                              ABORT
-                          </button>
-                      </div>
+                      {countdown !== null ? (
+                          <>
+                              <p className="font-orbitron text-xs text-yellow-500/70 mb-4 tracking-widest">GET IN POSITION</p>
+                              <p key={countdown} className="font-orbitron text-8xl font-bold text-yellow-500 text-glow-white animate-pulse">{countdown}</p>
+                          </>
+                      ) : (
+                          <>
+                              <h2 className="font-orbitron text-5xl font-bold text-yellow-500 mb-8 tracking-wider text-glow-white">PAUSED</h2>
+                              {pauseReason && (
+                                  <div className="-mt-4 mb-8 font-rajdhani">
+                                      <p className="font-orbitron text-sm text-yellow-300 tracking-widest">{PAUSE_REASONS[pauseReason].label.toUpperCase()}</p>
+                                      <p className="text-xs text-gray-400 tracking-wider">{PAUSE_REASONS[pauseReason].hint.toUpperCase()}</p>
+                                  </div>
+                              )}
+                              <div className="flex flex-col gap-6 font-rajdhani">
+                                  <button 
+                                      onClick={togglePause}
+                                      className="cyber-button-clip bg-yellow-500/20 hover:bg-yellow-500/40 border border-yellow-500 text-yellow-100 text-2xl font-bold py-4 px-12 transition-all tracking-widest hover:text-white hover:scale-105"
+                                  >
+                                      RESUME
+                                  </button>
+                                  <button 
+                                      onClick={quitGame}
+                                      className="cyber-button-clip bg-red-600/20 hover:bg-red-600/40 border border-red-600 text-red-200 text-2xl font-bold py-4 px-12 transition-all tracking-widest hover:text-white hover:scale-105"
+                                  >
+                                      ABORT
+                                  </button>
+                              </div>
+                          </>
+                      )}
                   </div>
               )}
 
@@ -277,11 +672,13 @@ const App: React.FC = () => {
                       </div>
                       <h2 className="font-orbitron text-2xl text-white font-bold mb-2 tracking-widest animate-pulse">INITIALIZING</h2>
                       <p className="font-rajdhani tracking-wider" style={{ color: colors.world.text }}>
-                          {!isCameraReady ? "ESTABLISHING OPTICAL LINK..." : "LOADING ASSETS..."}
+                          {settings.inputMode === InputMode.WEBCAM && !isInputReady
+                              ? `${STAGE_LABELS[trackingStage].toUpperCase()}...`
+                              : "LOADING ASSETS..."}
                       </p>
-                      {cameraError && (
+                      {inputError && (
                           <div className="mt-4 p-4 bg-red-900/50 border border-red-500 text-red-200 max-w-xs text-center font-mono text-xs">
-                              ERROR: {cameraError}
+                              ERROR: {inputError}
                           </div>
                       )}
                   </div>
@@ -337,7 +734,8 @@ const App: React.FC = () => {
                                           <button
                                               key={d}
                                               onClick={() => setDifficulty(d)}
-                                              className={`relative px-4 py-2 font-orbitron font-bold text-xs tracking-wider transition-all cyber-button-clip ${
+                                              disabled={!customChart && !song.charts[d]}
+                                              className={`relative px-4 py-2 font-orbitron font-bold text-xs tracking-wider transition-all cyber-button-clip disabled:opacity-30 ${
                                                   difficulty === d 
                                                     ? 'text-white shadow-[0_0_15px_rgba(37,99,235,0.6)] scale-110 z-10' 
                                                     : 'bg-gray-900 text-gray-500 hover:bg-gray-800 hover:text-gray-300'
@@ -372,16 +770,232 @@ const App: React.FC = () => {
                               </div>
                           </div>
 
+                          {/* Modifiers */}
+                          <div className="flex flex-col items-center mb-6">
+                              <p className="font-orbitron text-xs text-blue-300/60 mb-3 tracking-widest">
+                                  MODIFIERS · SCORE {formatMultiplier(scoreMultiplier(modifiers))}
+                              </p>
+                              <div className="flex flex-wrap justify-center gap-2">
+                                  {(Object.keys(MODIFIERS) as Modifier[]).map((m) => (
+                                      <button
+                                          key={m}
+                                          onClick={() => setModifiers(active => toggleModifier(active, m))}
+                                          title={MODIFIERS[m].hint}
+                                          className={`relative px-3 py-1 font-orbitron font-bold text-xs tracking-wider transition-all cyber-button-clip ${
+                                              modifiers.includes(m)
+                                                ? 'text-white shadow-[0_0_15px_rgba(37,99,235,0.6)]'
+                                                : 'bg-gray-900 text-gray-500 hover:bg-gray-800 hover:text-gray-300'
+                                          }`}
+                                          style={{ backgroundColor: modifiers.includes(m) ? colors.world.gridAccent : undefined }}
+                                      >
+                                          {MODIFIERS[m].label.toUpperCase()}
+                                      </button>
+                                  ))}
+                              </div>
+                              <p className="mt-2 text-[10px] font-rajdhani text-gray-500 tracking-wider">
+                                  {modifiers.length > 0 ? modifiers.map(m => MODIFIERS[m].hint.toUpperCase()).join(' ') : 'NONE ACTIVE'}
+                              </p>
+                          </div>
+
+                          {/* Input Source */}
+                          <div className="flex flex-col items-center mb-6">
+                              <p className="font-orbitron text-xs text-blue-300/60 mb-3 tracking-widest">INPUT</p>
+                              <div className="flex flex-wrap justify-center gap-2">
+                                  {(Object.keys(INPUT_MODES) as InputMode[]).map((m) => (
+                                      <button
+                                          key={m}
+                                          onClick={() => updateSettings({ inputMode: m })}
+                                          className={`relative px-4 py-2 font-orbitron font-bold text-xs tracking-wider transition-all cyber-button-clip ${
+                                              settings.inputMode === m
+                                                ? 'text-white shadow-[0_0_15px_rgba(37,99,235,0.6)] scale-110 z-10'
+                                                : 'bg-gray-900 text-gray-500 hover:bg-gray-800 hover:text-gray-300'
+                                          }`}
+                                          style={{ backgroundColor: settings.inputMode === m ? colors.world.gridAccent : undefined }}
+                                      >
+                                          {INPUT_MODES[m].label.toUpperCase()}
+                                      </button>
+                                  ))}
+                              </div>
+                              <p className="mt-2 text-[10px] font-rajdhani text-gray-500 tracking-wider">{INPUT_MODES[settings.inputMode].hint.toUpperCase()}</p>
+                              {settings.inputMode === InputMode.WEBCAM && (
+                                  <button
+                                      onClick={() => updateSettings({ swapHands: !settings.swapHands })}
+                                      className="mt-2 flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+                                  >
+                                      SWAP HANDS: {settings.swapHands ? 'ON' : 'OFF'}
+                                  </button>
+                              )}
+                          </div>
+
+                          {/* Motion Smoothing */}
+                          <div className="flex flex-col items-center mb-6">
+                              <p className="font-orbitron text-xs text-blue-300/60 mb-3 tracking-widest">SMOOTHING</p>
+                              <MotionFilterControls
+                                  value={settings.motionFilter}
+                                  colors={colors}
+                                  onChange={(motionFilter) => updateSettings({ motionFilter })}
+                              />
+                          </div>
+
+                          {/* Song Source */}
+                          <div className="flex flex-col items-center mb-4">
+                              <p className="font-orbitron text-xs text-blue-300/60 mb-3 tracking-widest">SONG</p>
+                              <div className="flex items-center justify-center gap-2 font-rajdhani">
+                                  <span className="text-sm text-gray-300 px-3 max-w-[200px] truncate">
+                                      {isImporting ? 'IMPORTING...' : `${song.title.toUpperCase()} · ${formatBpm(song.tempo)}`}
+                                  </span>
+                                  <button
+                                      onClick={() => setGameStatus(GameStatus.SONG_SELECT)}
+                                      className="flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+                                  >
+                                      <Music className="w-3 h-3" /> LIBRARY
+                                  </button>
+                              </div>
+                              {songError && (
+                                  <p className="mt-2 text-xs font-mono text-red-400">ERROR: {songError}</p>
+                              )}
+                              <p className="mt-1 text-[10px] font-rajdhani text-gray-500 tracking-wider">OR DROP SONG / CHART FILES ANYWHERE</p>
+                          </div>
+
+                          {/* Chart Source */}
+                          <div className="flex flex-col items-center mb-4">
+                              <p className="font-orbitron text-xs text-blue-300/60 mb-3 tracking-widest">CHART</p>
+                              <div className="flex items-center justify-center gap-2 font-rajdhani">
+                                  <span className="text-sm text-gray-300 px-3 max-w-[200px] truncate">
+                                      {customChart ? customChart.name : song.chartSource === 'beatmap' ? 'MAPPED' : song.chartSource === 'analyzed' ? 'AUTO-GENERATED' : 'GENERATED'}
+                                  </span>
+                                  <input
+                                      ref={chartInputRef}
+                                      type="file"
+                                      accept=".dat,.json,application/json"
+                                      className="hidden"
+                                      onChange={(e) => {
+                                          const file = e.target.files?.[0];
+                                          if (file) importChart(file);
+                                          e.target.value = '';
+                                      }}
+                                  />
+                                  <button
+                                      onClick={() => chartInputRef.current?.click()}
+                                      className="flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+                                  >
+                                      <Upload className="w-3 h-3" /> IMPORT
+                                  </button>
+                                  <button
+                                      onClick={exportChart}
+                                      className="flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+                                  >
+                                      <Download className="w-3 h-3" /> EXPORT
+                                  </button>
+                                  <button
+                                      onClick={openEditor}
+                                      className="flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+                                  >
+                                      <Pencil className="w-3 h-3" /> EDIT
+                                  </button>
+                                  {customChart && (
+                                      <button
+                                          onClick={() => setCustomChart(null)}
+                                          className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                                      >
+                                          <X className="w-4 h-4" />
+                                      </button>
+                                  )}
+                              </div>
+                              {chartError && (
+                                  <p className="mt-2 text-xs font-mono text-red-400">ERROR: {chartError}</p>
+                              )}
+                          </div>
+
+                          {/* Replays */}
+                          <div className="flex flex-col items-center mb-4">
+                              <p className="font-orbitron text-xs text-blue-300/60 mb-3 tracking-widest">REPLAY</p>
+                              <input
+                                  ref={replayInputRef}
+                                  type="file"
+                                  accept=".json,application/json"
+                                  className="hidden"
+                                  onChange={(e) => {
+                                      const file = e.target.files?.[0];
+                                      if (file) importReplay(file);
+                                      e.target.value = '';
+                                  }}
+                              />
+                              <button
+                                  onClick={() => replayInputRef.current?.click()}
+                                  className="flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+                              >
+                                  <Film className="w-3 h-3" /> LOAD REPLAY
+                              </button>
+                              {replayError && (
+                                  <p className="mt-2 text-xs font-mono text-red-400">ERROR: {replayError}</p>
+                              )}
+                          </div>
+
+                          {/* Local High Scores */}
+                          <div className="flex flex-col items-center mb-4">
+                              <p className="font-orbitron text-xs text-blue-300/60 mb-3 tracking-widest">
+                                  RECORDS · {DIFFICULTY_SETTINGS[difficulty].label.toUpperCase()}
+                              </p>
+                              <Leaderboard entries={leaderboard(scores, song.id, difficulty)} colors={colors} />
+                              <input
+                                  ref={scoresInputRef}
+                                  type="file"
+                                  accept=".json,application/json"
+                                  className="hidden"
+                                  onChange={(e) => {
+                                      const file = e.target.files?.[0];
+                                      if (file) importScoresFile(file);
+                                      e.target.value = '';
+                                  }}
+                              />
+                              <div className="mt-3 flex items-center justify-center gap-2">
+                                  <button
+                                      onClick={() => scoresInputRef.current?.click()}
+                                      className="flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+                                  >
+                                      <Upload className="w-3 h-3" /> IMPORT SCORES
+                                  </button>
+                                  <button
+                                      onClick={exportScoresFile}
+                                      disabled={scores.length === 0}
+                                      className="flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip disabled:opacity-50"
+                                  >
+                                      <Download className="w-3 h-3" /> EXPORT SCORES
+                                  </button>
+                              </div>
+                              {scoresError && (
+                                  <p className="mt-2 text-xs font-mono text-red-400">ERROR: {scoresError}</p>
+                              )}
+                          </div>
+
+                          {/* Timing Offsets */}
+                          <div className="flex flex-col items-center mb-8">
+                              <p className="font-orbitron text-xs text-blue-300/60 mb-3 tracking-widest">SYNC</p>
+                              <div className="flex items-center justify-center gap-2 font-rajdhani">
+                                  <span className="text-sm text-gray-300 px-3 font-mono">
+                                      AUDIO {settings.audioOffsetMs} MS · INPUT {settings.inputOffsetMs} MS
+                                  </span>
+                                  <button
+                                      onClick={() => setGameStatus(GameStatus.CALIBRATION)}
+                                      className="flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+                                  >
+                                      <Timer className="w-3 h-3" /> CALIBRATE
+                                  </button>
+                              </div>
+                          </div>
+
                           {/* Action Button */}
                           <div className="text-center">
-                               {!isCameraReady ? (
+                               {!isInputReady ? (
                                    <div className="inline-flex items-center justify-center gap-3 text-red-400 bg-red-950/30 px-6 py-3 rounded border border-red-900/50 font-rajdhani animate-pulse">
                                        <VideoOff className="w-5 h-5" /> 
-                                       <span>WAITING FOR CAMERA FEED...</span>
+                                       <span>{inputError ? inputError.toUpperCase() : settings.inputMode === InputMode.WEBCAM ? 'WAITING FOR CAMERA FEED...' : 'WAITING FOR INPUT...'}</span>
                                    </div>
                                ) : (
                                   <button 
-                                      onClick={startGame}
+                                      onClick={() => setGameStatus(GameStatus.SONG_SELECT)}
+                                      disabled={isImporting}
                                       className="group relative inline-flex items-center justify-center py-4 px-16 bg-white text-black font-orbitron font-black text-xl tracking-widest hover:text-white transition-all duration-300 cyber-button-clip shadow-[0_0_30px_rgba(255,255,255,0.3)] hover:shadow-[0_0_50px_rgba(59,130,246,0.6)] hover:scale-105"
                                       style={{ "--hover-color": colors.world.gridAccent } as React.CSSProperties}
                                   >
@@ -402,11 +1016,45 @@ const App: React.FC = () => {
                   </div>
               )}
 
+              {gameStatus === GameStatus.SONG_SELECT && (
+                  <SongSelect
+                      songs={songs}
+                      selected={song}
+                      difficulty={difficulty}
+                      scores={scores}
+                      colors={colors}
+                      canPlay={isInputReady}
+                      isImporting={isImporting}
+                      error={songError}
+                      practice={practice}
+                      onSelect={selectSong}
+                      onDifficulty={setDifficulty}
+                      onImport={importSong}
+                      onRemove={deleteSong}
+                      onPractice={setPractice}
+                      onPlay={startGame}
+                      onBack={() => setGameStatus(GameStatus.IDLE)}
+                  />
+              )}
+
+              {gameStatus === GameStatus.CALIBRATION && (
+                  <CalibrationScreen
+                      handPositionsRef={handPositionsRef}
+                      settings={settings}
+                      colors={colors}
+                      onSave={(offsets) => {
+                          updateSettings(offsets);
+                          setGameStatus(GameStatus.IDLE);
+                      }}
+                      onCancel={() => setGameStatus(GameStatus.IDLE)}
+                  />
+              )}
+
               {(gameStatus === GameStatus.GAME_OVER || gameStatus === GameStatus.VICTORY) && (
-                  <div className="bg-black/90 p-12 w-full max-w-lg text-center border border-white/10 backdrop-blur-xl cyber-clip-path relative">
+                  <div className="bg-black/90 p-8 md:p-10 w-full max-w-2xl max-h-full overflow-y-auto text-center border border-white/10 backdrop-blur-xl cyber-clip-path relative">
                        <div className={`absolute top-0 left-0 w-full h-1 ${gameStatus === GameStatus.VICTORY ? 'bg-green-500' : 'bg-red-500'} shadow-[0_0_20px_currentColor]`}></div>
                       
-                      <div className="mb-6 flex justify-center">
+                      <div className="mb-4 flex justify-center">
                           {gameStatus === GameStatus.VICTORY ? 
                               <Trophy className="w-20 h-20 text-green-400 drop-shadow-[0_0_15px_rgba(74,222,128,0.5)]" /> : 
                               <Skull className="w-20 h-20 text-red-500 drop-shadow-[0_0_15px_rgba(239,68,68,0.5)]" />
@@ -416,18 +1064,83 @@ const App: React.FC = () => {
                       <h2 className={`font-orbitron text-4xl md:text-5xl font-bold mb-2 tracking-wider ${gameStatus === GameStatus.VICTORY ? 'text-green-400' : 'text-red-500'}`}>
                           {gameStatus === GameStatus.VICTORY ? "MISSION CLEAR" : "SYSTEM FAILURE"}
                       </h2>
-                      <p className="font-rajdhani text-gray-400 mb-8 uppercase tracking-widest">
+                      <p className="font-rajdhani text-gray-400 mb-6 uppercase tracking-widest">
                           {gameStatus === GameStatus.VICTORY ? "Target Elimination Complete" : "Critical Damage Sustained"}
                       </p>
 
-                      <div className="bg-white/5 p-6 mb-8 border border-white/10">
-                          <p className="font-rajdhani text-sm text-gray-400 uppercase mb-1">Final Score</p>
+                      <div className="bg-white/5 p-6 mb-6 border border-white/10">
+                          <p className="font-rajdhani text-sm text-gray-400 uppercase mb-1">{replayPlayer ? 'Replay Score' : runPractice ? 'Practice Score' : 'Final Score'}</p>
                           <p className="font-orbitron text-4xl text-white font-bold">{score.toLocaleString()}</p>
+                          {runModifiers.length > 0 && (
+                              <p className="font-mono text-xs text-gray-400 mt-1">
+                                  MODIFIERS: {formatModifiers(runModifiers)} · {formatMultiplier(scoreMultiplier(runModifiers))}
+                              </p>
+                          )}
+                          {replayPlayer && (
+                              <p className="font-mono text-xs text-gray-500 mt-2">RECORDED: {replayPlayer.replay.score.toLocaleString()}</p>
+                          )}
+                          {!replayPlayer && !runPractice && customChart && (
+                              <p className="font-mono text-xs text-gray-500 mt-2">CUSTOM CHART · NOT RECORDED</p>
+                          )}
+                          {!replayPlayer && !runPractice && lastRun && (
+                              <>
+                                  {(!lastRun.previousBest || lastRun.record.score > lastRun.previousBest.score) && (
+                                      <p className="mt-2 inline-flex items-center gap-1 font-orbitron text-xs font-bold text-yellow-400 tracking-widest animate-pulse">
+                                          <Medal className="w-4 h-4" /> NEW PERSONAL BEST
+                                      </p>
+                                  )}
+                                  {lastRun.previousBest && (
+                                      <p className="font-mono text-xs text-gray-500 mt-1">
+                                          PERSONAL BEST: {lastRun.previousBest.score.toLocaleString()} ({(lastRun.previousBest.accuracy * 100).toFixed(1)}%)
+                                      </p>
+                                  )}
+                              </>
+                          )}
                       </div>
+
+                      {sessionSummary && (
+                          <div className="bg-white/5 p-6 mb-6 border border-white/10">
+                              <ResultsAnalytics summary={sessionSummary} colors={colors} duration={audioRef.current.duration || 0} />
+                              <div className="flex gap-3 justify-center mt-4 font-orbitron text-xs">
+                                  <button
+                                      onClick={() => exportSession('csv')}
+                                      className="flex items-center gap-1 px-4 py-2 bg-gray-900 text-gray-300 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+                                  >
+                                      <Download className="w-3 h-3" /> NOTES CSV
+                                  </button>
+                                  <button
+                                      onClick={() => exportSession('json')}
+                                      className="flex items-center gap-1 px-4 py-2 bg-gray-900 text-gray-300 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+                                  >
+                                      <Download className="w-3 h-3" /> NOTES JSON
+                                  </button>
+                              </div>
+                          </div>
+                      )}
+
+                      {!replayPlayer && recorderRef.current && (
+                          <div className="flex gap-3 justify-center mb-4 font-orbitron text-xs">
+                              <button
+                                  onClick={watchReplay}
+                                  className="flex items-center gap-1 px-4 py-2 bg-gray-900 text-gray-300 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+                              >
+                                  <Film className="w-3 h-3" /> WATCH REPLAY
+                              </button>
+                              <button
+                                  onClick={saveReplay}
+                                  className="flex items-center gap-1 px-4 py-2 bg-gray-900 text-gray-300 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+                              >
+                                  <Save className="w-3 h-3" /> SAVE REPLAY
+                              </button>
+                          </div>
+                      )}
                       
                       <div className="flex gap-4 justify-center">
                           <button 
-                              onClick={() => setGameStatus(GameStatus.IDLE)}
+                              onClick={() => {
+                                  setReplayPlayer(null);
+                                  setGameStatus(GameStatus.IDLE);
+                              }}
                               className="cyber-button-clip bg-white text-black hover:bg-blue-400 hover:text-white text-lg font-bold py-4 px-10 flex items-center justify-center gap-2 transition-all font-orbitron tracking-wider"
                           >
                               <RefreshCw className="w-5 h-5" /> REBOOT
@@ -437,6 +1150,19 @@ const App: React.FC = () => {
               )}
           </div>
       </div>
+
+      {/* Chart Editor Panel */}
+      {gameStatus === GameStatus.EDITOR && (
+          <ChartEditor
+              audioRef={audioRef}
+              initialChart={chart}
+              tempo={song.tempo}
+              colors={colors}
+              onChartChange={setChart}
+              onExport={(notes) => downloadJson(`cyber-blade-edit.dat`, serializeBeatmap(notes, song.tempo, 'v3', obstacles))}
+              onExit={closeEditor}
+          />
+      )}
     </div>
   );
 };
@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ColorPalette, GameSettings, HandPositions } from '../types';
+import { Timer, Hand, Check, X, RotateCcw } from 'lucide-react';
+
+interface CalibrationScreenProps {
+  handPositionsRef: { current: HandPositions };
+  settings: GameSettings;
+  colors: ColorPalette;
+  onSave: (offsets: Pick<GameSettings, 'audioOffsetMs' | 'inputOffsetMs'>) => void;
+  onCancel: () => void;
+}
+
+type Phase = 'audio' | 'input';
+
+// Metronome
+const CALIBRATION_BPM = 100;
+const BEAT_INTERVAL = 60 / CALIBRATION_BPM;
+const SCHEDULE_AHEAD = 0.1;  // seconds of clicks queued on the audio clock
+const SCHEDULER_TICK = 25;   // ms between scheduler runs
+
+// Measurement
+const SAMPLES_NEEDED = 8;
+const SWING_VELOCITY = 2.5;  // Downward speed that arms a swing
+const OFFSET_LIMIT = 0.4;    // Ignore taps further than this from any beat
+
+// Mean of the middle half of the samples, so stray taps don't skew the result
+const robustMean = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const trim = Math.floor(sorted.length / 4);
+  const core = sorted.slice(trim, sorted.length - trim);
+  return core.reduce((sum, v) => sum + v, 0) / core.length;
+};
+
+interface OffsetControlProps {
+  label: string;
+  value: number; // ms
+  onChange: (value: number) => void;
+}
+
+// Offset readout with 5 ms nudge buttons
+const OffsetControl: React.FC<OffsetControlProps> = ({ label, value, onChange }) => (
+  <div className="flex items-center justify-between gap-3 font-rajdhani">
+    <span className="text-xs font-orbitron text-gray-400 tracking-widest">{label}</span>
+    <div className="flex items-center gap-2">
+      <button onClick={() => onChange(value - 5)} className="w-7 h-7 bg-gray-900 hover:bg-gray-800 text-white">−</button>
+      <span className="w-20 text-center font-mono text-white">{value} ms</span>
+      <button onClick={() => onChange(value + 5)} className="w-7 h-7 bg-gray-900 hover:bg-gray-800 text-white">+</button>
+    </div>
+  </div>
+);
+
+const CalibrationScreen: React.FC<CalibrationScreenProps> = ({ handPositionsRef, settings, colors, onSave, onCancel }) => {
+  const [phase, setPhase] = useState<Phase>('audio');
+  const [audioSamples, setAudioSamples] = useState<number[]>([]);
+  const [inputSamples, setInputSamples] = useState<number[]>([]);
+  const [audioOffsetMs, setAudioOffsetMs] = useState(settings.audioOffsetMs);
+  const [inputOffsetMs, setInputOffsetMs] = useState(settings.inputOffsetMs);
+  const [beatFlash, setBeatFlash] = useState(0);
+
+  const ctxRef = useRef<AudioContext | null>(null);
+  const startTimeRef = useRef(0);
+
+  // Offset (seconds) of an event on the audio clock from the nearest metronome beat
+  const offsetFromBeat = (time: number) => {
+      const beats = (time - startTimeRef.current) / BEAT_INTERVAL;
+      return (beats - Math.round(beats)) * BEAT_INTERVAL;
+  };
+
+  // --- METRONOME ---
+  useEffect(() => {
+      const ctx = new AudioContext();
+      ctx.resume();
+      ctxRef.current = ctx;
+      startTimeRef.current = ctx.currentTime + 0.5;
+      let nextBeat = 0;
+
+      const scheduleClick = (time: number, accent: boolean) => {
+          const osc = ctx.createOscillator();
+          const gain = ctx.createGain();
+          osc.frequency.value = accent ? 1500 : 1000;
+          gain.gain.setValueAtTime(0.5, time);
+          gain.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+          osc.connect(gain).connect(ctx.destination);
+          osc.start(time);
+          osc.stop(time + 0.06);
+      };
+
+      const scheduler = setInterval(() => {
+          while (startTimeRef.current + nextBeat * BEAT_INTERVAL < ctx.currentTime + SCHEDULE_AHEAD) {
+              scheduleClick(startTimeRef.current + nextBeat * BEAT_INTERVAL, nextBeat % 4 === 0);
+              nextBeat++;
+          }
+      }, SCHEDULER_TICK);
+
+      // Visual beat follows the audio clock (uncompensated on purpose)
+      let frameId: number;
+      let lastBeat = -1;
+      const animate = () => {
+          const beat = Math.floor((ctx.currentTime - startTimeRef.current) / BEAT_INTERVAL);
+          if (beat !== lastBeat && beat >= 0) {
+              lastBeat = beat;
+              setBeatFlash(beat);
+          }
+          frameId = requestAnimationFrame(animate);
+      };
+      animate();
+
+      return () => {
+          clearInterval(scheduler);
+          cancelAnimationFrame(frameId);
+          ctx.close();
+      };
+  }, []);
+
+  // --- AUDIO PHASE: taps ---
+  useEffect(() => {
+      if (phase !== 'audio') return;
+
+      const onTap = (e: KeyboardEvent | PointerEvent) => {
+          if (e instanceof KeyboardEvent && e.key !== ' ') return;
+          // Buttons handle their own clicks
+          if (e instanceof PointerEvent && (e.target as HTMLElement).closest('button')) return;
+          const ctx = ctxRef.current;
+          if (!ctx) return;
+          e.preventDefault();
+          const offset = offsetFromBeat(ctx.currentTime);
+          if (Math.abs(offset) < OFFSET_LIMIT) setAudioSamples(s => [...s, offset]);
+      };
+
+      window.addEventListener('keydown', onTap);
+      window.addEventListener('pointerdown', onTap);
+      return () => {
+          window.removeEventListener('keydown', onTap);
+          window.removeEventListener('pointerdown', onTap);
+      };
+  }, [phase]);
+
+  // --- INPUT PHASE: downward swings, registered where the hand stops ---
+  useEffect(() => {
+      if (phase !== 'input') return;
+
+      let frameId: number;
+      const armed = { left: false, right: false };
+
+      const poll = () => {
+          const hands = handPositionsRef.current;
+          const ctx = ctxRef.current;
+          if (ctx) {
+              (['left', 'right'] as const).forEach(hand => {
+                  const pos = hand === 'left' ? hands.left : hands.right;
+                  const vel = hand === 'left' ? hands.leftVelocity : hands.rightVelocity;
+                  if (!pos) {
+                      armed[hand] = false;
+                      return;
+                  }
+                  if (vel.y < -SWING_VELOCITY) {
+                      armed[hand] = true;
+                  } else if (armed[hand] && vel.y >= 0) {
+                      // Bottom of the swing
+                      armed[hand] = false;
+                      const offset = offsetFromBeat(ctx.currentTime);
+                      if (Math.abs(offset) < OFFSET_LIMIT) setInputSamples(s => [...s, offset]);
+                  }
+              });
+          }
+          frameId = requestAnimationFrame(poll);
+      };
+      poll();
+
+      return () => cancelAnimationFrame(frameId);
+  }, [phase, handPositionsRef]);
+
+  // Turn samples into offsets once there are enough of them
+  useEffect(() => {
+      if (audioSamples.length >= SAMPLES_NEEDED) {
+          setAudioOffsetMs(Math.round(robustMean(audioSamples) * 1000));
+      }
+  }, [audioSamples]);
+
+  useEffect(() => {
+      if (inputSamples.length >= SAMPLES_NEEDED) {
+          // Swings are timed against what was heard, so remove the audio delay
+          setInputOffsetMs(Math.max(0, Math.round(robustMean(inputSamples) * 1000 - audioOffsetMs)));
+      }
+  }, [inputSamples, audioOffsetMs]);
+
+  const samples = phase === 'audio' ? audioSamples : inputSamples;
+  const progress = Math.min(1, samples.length / SAMPLES_NEEDED);
+
+  return (
+    <div className="relative bg-black/80 p-10 w-full max-w-lg text-center border border-white/10 backdrop-blur-xl cyber-clip-path">
+        <h2 className="font-orbitron text-3xl font-bold text-white mb-2 tracking-wider flex items-center justify-center gap-3">
+            <Timer className="w-7 h-7" style={{ color: colors.world.text }} /> SYNC CALIBRATION
+        </h2>
+        <p className="font-rajdhani text-gray-400 mb-6 tracking-wider">
+            {phase === 'audio'
+                ? 'TAP SPACE OR THE SCREEN ON EVERY CLICK YOU HEAR'
+                : 'SWING A HAND DOWN SO IT STOPS ON EVERY CLICK'}
+        </p>
+
+        {/* Beat indicator */}
+        <div className="flex justify-center mb-6">
+            <div
+                key={beatFlash}
+                className="w-24 h-24 rounded-full border-4 flex items-center justify-center beat-pulse"
+                style={{ borderColor: beatFlash % 4 === 0 ? colors.left : colors.right, animationDuration: `${BEAT_INTERVAL}s` }}
+            >
+                {phase === 'audio' ? <Timer className="w-10 h-10 text-white" /> : <Hand className="w-10 h-10 text-white" />}
+            </div>
+        </div>
+
+        {/* Progress */}
+        <div className="h-2 bg-gray-800 rounded-sm overflow-hidden mb-2">
+            <div className="h-full transition-all duration-200" style={{ width: `${progress * 100}%`, backgroundColor: colors.world.text }} />
+        </div>
+        <p className="font-mono text-xs text-gray-500 mb-6">{samples.length} / {SAMPLES_NEEDED} SAMPLES</p>
+
+        <div className="flex flex-col gap-3 mb-8 text-left">
+            <OffsetControl label="AUDIO OFFSET" value={audioOffsetMs} onChange={setAudioOffsetMs} />
+            <OffsetControl label="INPUT OFFSET" value={inputOffsetMs} onChange={setInputOffsetMs} />
+        </div>
+
+        <div className="flex gap-3 justify-center font-orbitron text-sm">
+            {phase === 'audio' ? (
+                <button
+                    onClick={() => setPhase('input')}
+                    className="cyber-button-clip px-6 py-3 bg-white text-black font-bold hover:bg-blue-400 hover:text-white transition-all"
+                >
+                    NEXT: SWING
+                </button>
+            ) : (
+                <button
+                    onClick={() => onSave({ audioOffsetMs, inputOffsetMs })}
+                    className="cyber-button-clip px-6 py-3 bg-white text-black font-bold hover:bg-blue-400 hover:text-white transition-all flex items-center gap-2"
+                >
+                    <Check className="w-4 h-4" /> SAVE
+                </button>
+            )}
+            <button
+                onClick={() => phase === 'audio' ? setAudioSamples([]) : setInputSamples([])}
+                className="cyber-button-clip px-4 py-3 bg-gray-900 text-gray-300 hover:bg-gray-800 transition-all flex items-center gap-2"
+            >
+                <RotateCcw className="w-4 h-4" /> RETRY
+            </button>
+            <button
+                onClick={onCancel}
+                className="cyber-button-clip px-4 py-3 bg-red-600/20 border border-red-600 text-red-200 hover:bg-red-600/40 transition-all flex items-center gap-2"
+            >
+                <X className="w-4 h-4" /> CANCEL
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default CalibrationScreen;
@@ -0,0 +1,359 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { NoteData, NoteType, CutDirection, ColorPalette, TempoMap } from '../types';
+import { LANE_X_POSITIONS, LAYER_Y_POSITIONS, BOMB_COLORS } from '../constants';
+import { useChartHistory } from '../hooks/useChartHistory';
+import { addBeats, barPosition, beatToSeconds, bpmAt, isConstantTempo, secondsToBeat } from '../utils/tempoMap';
+import { Play, Pause, Undo2, Redo2, Copy, ClipboardPaste, Download, Check, SkipBack, SkipForward, Trash2 } from 'lucide-react';
+
+interface ChartEditorProps {
+  audioRef: React.RefObject<HTMLAudioElement>;
+  initialChart: NoteData[];
+  tempo: TempoMap; // Beat grid the snap follows
+  colors: ColorPalette;
+  onChartChange: (notes: NoteData[]) => void; // Live preview in GameScene
+  onExport: (notes: NoteData[]) => void;
+  onExit: (notes: NoteData[]) => void;
+}
+
+// Beat subdivisions available for snapping
+const SNAP_OPTIONS = [
+  { label: '1', value: 1 },
+  { label: '1/2', value: 1 / 2 },
+  { label: '1/4', value: 1 / 4 },
+  { label: '1/8', value: 1 / 8 }
+];
+
+const DIRECTION_GLYPHS: Record<CutDirection, string> = {
+  [CutDirection.UP]: '↑',
+  [CutDirection.DOWN]: '↓',
+  [CutDirection.LEFT]: '←',
+  [CutDirection.RIGHT]: '→',
+  [CutDirection.UP_LEFT]: '↖',
+  [CutDirection.UP_RIGHT]: '↗',
+  [CutDirection.DOWN_LEFT]: '↙',
+  [CutDirection.DOWN_RIGHT]: '↘',
+  [CutDirection.ANY]: '•'
+};
+
+// Direction picker laid out like the arrows they represent (dot in the middle)
+const DIRECTION_PAD: CutDirection[] = [
+  CutDirection.UP_LEFT, CutDirection.UP, CutDirection.UP_RIGHT,
+  CutDirection.LEFT, CutDirection.ANY, CutDirection.RIGHT,
+  CutDirection.DOWN_LEFT, CutDirection.DOWN, CutDirection.DOWN_RIGHT
+];
+
+// Two notes share a slot if they are closer than this (seconds)
+const TIME_EPSILON = 0.001;
+
+let editorIdCount = 0;
+const createNoteId = () => `note-edit-${Date.now().toString(36)}-${editorIdCount++}`;
+
+const ChartEditor: React.FC<ChartEditorProps> = ({ audioRef, initialChart, tempo, colors, onChartChange, onExport, onExit }) => {
+  const { notes, commit, undo, redo, canUndo, canRedo } = useChartHistory(
+      // Strip runtime flags so the editor only works with authored data
+      initialChart.map(({ hit, missed, hitTime, ...n }) => n)
+  );
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [snap, setSnap] = useState(1 / 2);
+  const [noteType, setNoteType] = useState<NoteType>('right');
+  const [cutDirection, setCutDirection] = useState<CutDirection>(CutDirection.ANY);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  // Copied notes, timed in beats from the start of the selection so they keep their
+  // rhythm when pasted under a different tempo
+  const clipboardRef = useRef<NoteData[]>([]);
+  const timelineRef = useRef<HTMLDivElement>(null);
+
+  const typeColor = (type: NoteType) => type === 'bomb' ? BOMB_COLORS.glow : type === 'left' ? colors.left : colors.right;
+
+
+  const audio = audioRef.current;
+  const lastNoteTime = notes.length > 0 ? notes[notes.length - 1].time : 0;
+  const duration = audio && isFinite(audio.duration) ? audio.duration : lastNoteTime + 10;
+
+  // Snapping happens in beats, so the grid follows tempo changes
+  const snapTime = (t: number) => Math.max(0, beatToSeconds(tempo, Math.round(secondsToBeat(tempo, t) / snap) * snap));
+  const stepBy = (steps: number) => seek(addBeats(tempo, snappedTime, steps * snap));
+  const snappedTime = snapTime(currentTime);
+
+  // Push every edit to the preview
+  useEffect(() => {
+      onChartChange(notes);
+  }, [notes]);
+
+  // Follow the audio playhead
+  useEffect(() => {
+      let frameId: number;
+      const tick = () => {
+          if (audioRef.current) {
+              setCurrentTime(audioRef.current.currentTime);
+              setIsPlaying(!audioRef.current.paused);
+          }
+          frameId = requestAnimationFrame(tick);
+      };
+      tick();
+      return () => cancelAnimationFrame(frameId);
+  }, [audioRef]);
+
+  // Stop preview playback when leaving the editor
+  useEffect(() => {
+      return () => audioRef.current?.pause();
+  }, [audioRef]);
+
+  const seek = (t: number) => {
+      if (!audioRef.current) return;
+      audioRef.current.currentTime = Math.min(Math.max(0, t), duration);
+      setCurrentTime(audioRef.current.currentTime);
+  };
+
+  const togglePlayback = () => {
+      if (!audioRef.current) return;
+      if (audioRef.current.paused) {
+          audioRef.current.play().catch(e => console.error("Preview play failed", e));
+      } else {
+          audioRef.current.pause();
+          // Land on the grid so placement matches what the player just heard
+          seek(snapTime(audioRef.current.currentTime));
+      }
+  };
+
+  const sortNotes = (list: NoteData[]) => [...list].sort((a, b) => a.time - b.time || a.lineIndex - b.lineIndex);
+
+  // --- EDIT OPERATIONS ---
+
+  const toggleNote = (lineIndex: number, lineLayer: number) => {
+      const time = snappedTime;
+      const existing = notes.find(n => Math.abs(n.time - time) < TIME_EPSILON && n.lineIndex === lineIndex && n.lineLayer === lineLayer);
+      const remaining = notes.filter(n => n !== existing);
+
+      // Bombs have no direction
+      const direction = noteType === 'bomb' ? CutDirection.ANY : cutDirection;
+
+      // Clicking an identical note removes it; anything else places/replaces
+      if (existing && existing.type === noteType && existing.cutDirection === direction) {
+          commit(remaining);
+          return;
+      }
+      commit(sortNotes([...remaining, { id: createNoteId(), time, lineIndex, lineLayer, type: noteType, cutDirection: direction }]));
+  };
+
+  const notesInSelection = () => {
+      if (!selection) return [];
+      return notes.filter(n => n.time >= selection.start - TIME_EPSILON && n.time < selection.end - TIME_EPSILON);
+  };
+
+  const copySelection = () => {
+      if (!selection) return;
+      const startBeat = secondsToBeat(tempo, selection.start);
+      clipboardRef.current = notesInSelection().map(n => ({ ...n, time: secondsToBeat(tempo, n.time) - startBeat }));
+  };
+
+  const pasteAtPlayhead = () => {
+      if (clipboardRef.current.length === 0) return;
+      const baseBeat = secondsToBeat(tempo, snappedTime);
+      const pasted = clipboardRef.current.map(n => ({ ...n, id: createNoteId(), time: beatToSeconds(tempo, baseBeat + n.time) }));
+      // Pasted notes overwrite whatever occupies the same slots
+      const remaining = notes.filter(n => !pasted.some(p => Math.abs(p.time - n.time) < TIME_EPSILON && p.lineIndex === n.lineIndex && p.lineLayer === n.lineLayer));
+      commit(sortNotes([...remaining, ...pasted]));
+  };
+
+  const deleteSelection = () => {
+      const selected = new Set(notesInSelection());
+      if (selected.size > 0) commit(notes.filter(n => !selected.has(n)));
+  };
+
+  const markSelection = (edge: 'start' | 'end') => {
+      const t = snappedTime;
+      setSelection(sel => {
+          const start = edge === 'start' ? t : sel ? sel.start : 0;
+          const end = edge === 'end' ? t : sel ? sel.end : addBeats(tempo, t, 4);
+          return start < end ? { start, end } : { start: end, end: start };
+      });
+  };
+
+  // --- KEYBOARD SHORTCUTS ---
+  useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => {
+          const mod = e.ctrlKey || e.metaKey;
+          if (mod && e.key.toLowerCase() === 'z') {
+              e.preventDefault();
+              if (e.shiftKey) redo(); else undo();
+          } else if (mod && e.key.toLowerCase() === 'y') {
+              e.preventDefault();
+              redo();
+          } else if (mod && e.key.toLowerCase() === 'c') {
+              copySelection();
+          } else if (mod && e.key.toLowerCase() === 'v') {
+              pasteAtPlayhead();
+          } else if (e.key === ' ') {
+              e.preventDefault();
+              togglePlayback();
+          } else if (e.key === 'ArrowRight') {
+              stepBy(1);
+          } else if (e.key === 'ArrowLeft') {
+              stepBy(-1);
+          } else if (e.key === 'Delete' || e.key === 'Backspace') {
+              deleteSelection();
+          }
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      if (!timelineRef.current) return;
+      const rect = timelineRef.current.getBoundingClientRect();
+      const ratio = (e.clientX - rect.left) / rect.width;
+      seek(snapTime(ratio * duration));
+  };
+
+  // Notes sitting on the current snapped time, keyed by grid cell
+  const notesAtPlayhead = useMemo(() => {
+      const map = new Map<string, NoteData>();
+      notes.forEach(n => {
+          if (Math.abs(n.time - snappedTime) < TIME_EPSILON) map.set(`${n.lineIndex}-${n.lineLayer}`, n);
+      });
+      return map;
+  }, [notes, snappedTime]);
+
+  const formatTime = (t: number) => `${Math.floor(t / 60)}:${(t % 60).toFixed(2).padStart(5, '0')}`;
+  const currentBeat = secondsToBeat(tempo, snappedTime);
+  const { bar, beatInBar } = barPosition(tempo, currentBeat);
+
+  const toolButton = "flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-300 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip disabled:opacity-30";
+
+  return (
+    <div className="absolute bottom-0 left-0 right-0 z-40 pointer-events-auto bg-black/80 border-t-2 backdrop-blur-md p-4 font-rajdhani text-white" style={{ borderColor: colors.world.text }}>
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+            <button onClick={togglePlayback} className={toolButton}>
+                {isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />} {isPlaying ? 'PAUSE' : 'PREVIEW'}
+            </button>
+            <button onClick={() => stepBy(-1)} className={toolButton}><SkipBack className="w-3 h-3" /></button>
+            <button onClick={() => stepBy(1)} className={toolButton}><SkipForward className="w-3 h-3" /></button>
+            <span className="font-mono text-xs px-2" style={{ color: colors.world.text }}>
+                {formatTime(snappedTime)} · BAR {bar + 1}.{(beatInBar + 1).toFixed(2)} · BEAT {currentBeat.toFixed(2)}
+                {!isConstantTempo(tempo) && ` · ${Number(bpmAt(tempo, currentBeat).toFixed(1))} BPM`}
+            </span>
+
+            <span className="font-orbitron text-[10px] text-gray-500 ml-2">SNAP</span>
+            {SNAP_OPTIONS.map(opt => (
+                <button
+                    key={opt.label}
+                    onClick={() => setSnap(opt.value)}
+                    className={`px-2 py-1 text-xs font-orbitron cyber-button-clip ${snap === opt.value ? 'text-white' : 'bg-gray-900 text-gray-500'}`}
+                    style={{ backgroundColor: snap === opt.value ? colors.world.gridAccent : undefined }}
+                >
+                    {opt.label}
+                </button>
+            ))}
+
+            <div className="flex-1" />
+
+            <button onClick={undo} disabled={!canUndo} className={toolButton}><Undo2 className="w-3 h-3" /></button>
+            <button onClick={redo} disabled={!canRedo} className={toolButton}><Redo2 className="w-3 h-3" /></button>
+            <button onClick={copySelection} disabled={!selection} className={toolButton}><Copy className="w-3 h-3" /> COPY</button>
+            <button onClick={pasteAtPlayhead} className={toolButton}><ClipboardPaste className="w-3 h-3" /> PASTE</button>
+            <button onClick={deleteSelection} disabled={!selection} className={toolButton}><Trash2 className="w-3 h-3" /></button>
+            <button onClick={() => onExport(notes)} className={toolButton}><Download className="w-3 h-3" /> EXPORT</button>
+            <button onClick={() => onExit(notes)} className={toolButton} style={{ color: colors.world.text }}><Check className="w-3 h-3" /> DONE</button>
+        </div>
+
+        <div className="flex gap-6 items-start">
+            {/* Note Placement Grid (top row = highest layer) */}
+            <div className="grid grid-cols-4 gap-1 shrink-0">
+                {[...LAYER_Y_POSITIONS.keys()].reverse().map(layer =>
+                    LANE_X_POSITIONS.map((_, lane) => {
+                        const note = notesAtPlayhead.get(`${lane}-${layer}`);
+                        const color = note ? typeColor(note.type) : undefined;
+                        return (
+                            <button
+                                key={`${lane}-${layer}`}
+                                onClick={() => toggleNote(lane, layer)}
+                                className="w-10 h-10 border border-white/20 hover:border-white/60 text-xl font-bold transition-colors"
+                                style={{ backgroundColor: color ? `${color}CC` : 'rgba(255,255,255,0.05)' }}
+                            >
+                                {note ? (note.type === 'bomb' ? '✸' : DIRECTION_GLYPHS[note.cutDirection]) : ''}
+                            </button>
+                        );
+                    })
+                )}
+            </div>
+
+            {/* Brush: type & direction */}
+            <div className="flex flex-col gap-2 shrink-0">
+                <div className="flex gap-1">
+                    {(['left', 'right', 'bomb'] as NoteType[]).map(t => (
+                        <button
+                            key={t}
+                            onClick={() => setNoteType(t)}
+                            className={`px-3 py-1 text-xs font-orbitron cyber-button-clip ${noteType === t ? 'text-white' : 'text-gray-500 bg-gray-900'}`}
+                            style={{ backgroundColor: noteType === t ? typeColor(t) : undefined }}
+                        >
+                            {t.toUpperCase()}
+                        </button>
+                    ))}
+                </div>
+                <div className="grid grid-cols-3 gap-1 w-fit">
+                    {DIRECTION_PAD.map(d => (
+                        <button
+                            key={d}
+                            onClick={() => setCutDirection(d)}
+                            className={`w-8 h-8 text-lg border ${cutDirection === d ? 'border-white text-white bg-white/20' : 'border-white/20 text-gray-400'}`}
+                        >
+                            {DIRECTION_GLYPHS[d]}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-1">
+                    <button onClick={() => markSelection('start')} className={toolButton}>MARK IN</button>
+                    <button onClick={() => markSelection('end')} className={toolButton}>MARK OUT</button>
+                </div>
+            </div>
+
+            {/* Timeline */}
+            <div className="flex-1 min-w-0">
+                <div className="flex justify-between text-[10px] font-mono text-gray-500 mb-1">
+                    <span>{notes.length} NOTES</span>
+                    <span>{formatTime(duration)}</span>
+                </div>
+                <div
+                    ref={timelineRef}
+                    onClick={handleTimelineClick}
+                    className="relative h-16 bg-white/5 border border-white/10 cursor-pointer overflow-hidden"
+                >
+                    {selection && (
+                        <div
+                            className="absolute top-0 bottom-0 bg-yellow-400/20 border-x border-yellow-400/60"
+                            style={{ left: `${(selection.start / duration) * 100}%`, width: `${((selection.end - selection.start) / duration) * 100}%` }}
+                        />
+                    )}
+                    {notes.map(n => (
+                        <div
+                            key={n.id}
+                            className="absolute w-[2px] h-3"
+                            style={{
+                                left: `${(n.time / duration) * 100}%`,
+                                top: `${4 + (2 - n.lineLayer) * 16}px`,
+                                backgroundColor: typeColor(n.type)
+                            }}
+                        />
+                    ))}
+                    <div className="absolute top-0 bottom-0 w-[2px] bg-white shadow-[0_0_8px_white]" style={{ left: `${(currentTime / duration) * 100}%` }} />
+                </div>
+                <p className="mt-1 text-[10px] text-gray-500 tracking-wider">
+                    SPACE PREVIEW · ←/→ STEP · CTRL+Z/Y UNDO/REDO · CTRL+C/V COPY/PASTE · DEL CLEAR SELECTION
+                </p>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ChartEditor;
@@ -8,86 +8,167 @@ import React, { useRef, useState, useMemo, useEffect } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { Environment, Grid, PerspectiveCamera, Stars } from '@react-three/drei';
 import * as THREE from 'three';
-import { GameStatus, NoteData, HandPositions, ColorPalette, CutDirection } from '../types';
-import { PLAYER_Z, SPAWN_Z, MISS_Z, DIRECTION_VECTORS, NOTE_SIZE, LANE_X_POSITIONS, LAYER_Y_POSITIONS, SONG_BPM } from '../constants';
+import { GameStatus, NoteData, ObstacleData, HandPositions, ColorPalette, CutOutcome, CutScore, ReplayFrame, TempoMap, Modifier, PracticeSettings } from '../types';
+import { NOTE_SIZE } from '../constants';
 import Note from './Note';
+import Obstacle from './Obstacle';
+import ScorePopup from './ScorePopup';
 import Saber from './Saber';
+import { captureFrame, ReplayRecorder, ReplayPlayer } from '../utils/replay';
+import { createGameEngine, trackZ, EngineEvent } from '../utils/gameEngine';
+import { barPosition, secondsToBeat } from '../utils/tempoMap';
+import { practiceAudioStart } from '../utils/practice';
 
 interface GameSceneProps {
   gameStatus: GameStatus;
   audioRef: React.RefObject<HTMLAudioElement>;
   handPositionsRef: React.MutableRefObject<any>; // Simplified type for the raw ref
+  headPositionRef: React.MutableRefObject<THREE.Vector3 | null>;
   chart: NoteData[];
+  obstacles: ObstacleData[];
+  tempo: TempoMap; // Beat grid for the light pulse
   noteSpeed: number;
+  audioOffset: number; // Seconds the player hears the song after currentTime reports it
+  inputOffset: number; // Seconds hand positions lag behind the real hand
+  modifiers: Modifier[]; // Of the run; the scene draws Disappearing and Ghost Notes
+  practice: PracticeSettings | null; // Judging starts at its start and loops its range
   colors: ColorPalette;
-  onNoteHit: (note: NoteData, goodCut: boolean) => void;
+  recorder: ReplayRecorder | null; // Records every step of a live session
+  replay: ReplayPlayer | null;     // Drives the scene from a recording instead of live tracking
+  onNoteHit: (note: NoteData, cut: CutScore) => void;
   onNoteMiss: (note: NoteData) => void;
+  onBombHit: (note: NoteData) => void;
+  onObstacleHit: (obstacle: ObstacleData, damage: number) => void;
   onSongEnd: () => void;
 }
 
-const BEAT_TIME = 60 / SONG_BPM;
+// How long score popups stay on screen (song seconds)
+const POPUP_DURATION = 0.8;
 
 const GameScene: React.FC<GameSceneProps> = ({ 
     gameStatus, 
     audioRef, 
     handPositionsRef, 
+    headPositionRef,
     chart,
+    obstacles,
+    tempo,
     noteSpeed,
+    audioOffset,
+    inputOffset,
+    modifiers,
+    practice,
     colors,
+    recorder,
+    replay,
     onNoteHit,
     onNoteMiss,
+    onBombHit,
+    onObstacleHit,
     onSongEnd
 }) => {
-  // Local state for notes to trigger re-renders when they are hit/missed
-  const [notesState, setNotesState] = useState<NoteData[]>([]);
   const [currentTime, setCurrentTime] = useState(0);
+  const [collidingWallId, setCollidingWallId] = useState<string | null>(null);
+  const [popups, setPopups] = useState<{ id: string; position: [number, number, number]; cut: CutScore; time: number }[]>([]);
 
   // Refs for things we don't want causing re-renders every frame
-  const activeNotesRef = useRef<NoteData[]>([]);
-  const nextNoteIndexRef = useRef(0);
   const shakeIntensity = useRef(0);
   const cameraRef = useRef<THREE.PerspectiveCamera>(null);
   const ambientLightRef = useRef<THREE.AmbientLight>(null);
   const spotLightRef = useRef<THREE.SpotLight>(null);
+  // Hands of the last replayed step, shown on the sabers instead of live tracking
+  const replayHandsRef = useRef<HandPositions | null>(null);
 
-  // Helper Vector3s for collision to avoid GC
-  const vecA = useMemo(() => new THREE.Vector3(), []);
-  const vecB = useMemo(() => new THREE.Vector3(), []);
+  // Gameplay simulation; a new chart starts a fresh session
+  const engine = useMemo(
+      () => createGameEngine({ chart, obstacles, noteSpeed, inputOffset }),
+      [chart, obstacles, noteSpeed, inputOffset]
+  );
 
-  // Reset when chart changes
   useEffect(() => {
-      // Deep copy chart to ensure we have fresh note objects we can mutate (hit/missed flags)
-      // JSON parse/stringify is simple and effective for this plain data structure
-      if (chart.length > 0) {
-        setNotesState(JSON.parse(JSON.stringify(chart)));
-        activeNotesRef.current = [];
-        nextNoteIndexRef.current = 0;
-      }
-  }, [chart]);
-
-  // Wrap onNoteHit to add Scene-level effects (Camera shake)
-  const handleHit = (note: NoteData, goodCut: boolean) => {
-      shakeIntensity.current = goodCut ? 0.3 : 0.15;
-      onNoteHit(note, goodCut);
-  }
+      setPopups([]);
+      setCollidingWallId(null);
+  }, [engine]);
+
+  // Status on the previous frame, to spot a run starting
+  const lastStatusRef = useRef(gameStatus);
+
+  const restartAt = (time: number) => {
+      engine.seek(time);
+      setPopups([]);
+      setCollidingWallId(null);
+  };
+
+  // Turn engine events into effects and callbacks. Returns the wall the head is in, if any.
+  const applyEvents = (events: EngineEvent[], time: number) => {
+    let wallId: string | null = null;
+    for (const event of events) {
+        switch (event.type) {
+            case 'contact':
+                // Shake on contact; scoring waits for the follow-through
+                shakeIntensity.current = event.outcome === CutOutcome.GOOD ? 0.3 : event.outcome === CutOutcome.WRONG_DIRECTION ? 0.4 : 0.15;
+                break;
+            case 'hit':
+                // Drop expired popups as new ones arrive so the list stays short
+                setPopups(p => [...p.filter(x => time - x.time < POPUP_DURATION), { id: event.note.id, position: event.position, cut: event.cut, time }]);
+                recorder?.recordEvent({ time, kind: 'hit', noteId: event.note.id, outcome: event.cut.outcome, total: event.cut.total });
+                onNoteHit(event.note, event.cut);
+                break;
+            case 'miss':
+                recorder?.recordEvent({ time, kind: 'miss', noteId: event.note.id });
+                onNoteMiss(event.note);
+                break;
+            case 'bomb':
+                shakeIntensity.current = 0.6;
+                recorder?.recordEvent({ time, kind: 'bomb', noteId: event.note.id });
+                onBombHit(event.note);
+                break;
+            case 'wall':
+                wallId = event.obstacle.id;
+                shakeIntensity.current = Math.max(shakeIntensity.current, 0.08);
+                onObstacleHit(event.obstacle, event.damage);
+                break;
+        }
+    }
+    return wallId;
+  };
+
+  // Advance the simulation by one frame.
+  // Live play runs one step per render; replays re-run the recorded steps.
+  const step = (frame: ReplayFrame) => {
+    const { time } = frame;
+    setCurrentTime(time);
+    replayHandsRef.current = frame.hands;
+
+    const wallId = applyEvents(engine.step(frame), time);
+    if (wallId !== collidingWallId) setCollidingWallId(wallId);
+  };
 
   useFrame((state, delta) => {
+    // A run starting (not resuming) judges from its first note, even when the chart is the last run's
+    const runStarted = gameStatus === GameStatus.PLAYING && lastStatusRef.current !== GameStatus.PLAYING && lastStatusRef.current !== GameStatus.PAUSED;
+    lastStatusRef.current = gameStatus;
+    if (runStarted) restartAt(practice ? practice.start : 0);
+
     // --- Pause Logic ---
     if (gameStatus === GameStatus.PAUSED) return;
 
     // --- Beat Pulsing ---
-    // Calculate a value from 0 to 1 that peaks exactly on the beat and decays quickly
+    // Calculate a value from 0 to 1 that peaks exactly on the beat and decays quickly.
+    // Beats follow the song's tempo changes; the first beat of each bar hits harder.
     if (audioRef.current && gameStatus === GameStatus.PLAYING) {
-        const time = audioRef.current.currentTime;
-        const beatPhase = (time % BEAT_TIME) / BEAT_TIME;
+        const time = audioRef.current.currentTime - audioOffset;
+        const beat = secondsToBeat(tempo, time);
+        const beatPhase = beat - Math.floor(beat);
         // Sharp decay curve: Math.pow(1 - beatPhase, 3)
         const pulse = Math.pow(1 - beatPhase, 4); 
+        const downbeat = Math.floor(barPosition(tempo, beat).beatInBar) === 0;
         
         if (ambientLightRef.current) {
             ambientLightRef.current.intensity = 0.1 + (pulse * 0.3);
         }
         if (spotLightRef.current) {
-            spotLightRef.current.intensity = 0.5 + (pulse * 1.5);
+            spotLightRef.current.intensity = 0.5 + (pulse * (downbeat ? 2.0 : 1.5));
         }
     }
 
@@ -107,113 +188,82 @@ const GameScene: React.FC<GameSceneProps> = ({
         }
     }
 
+    // --- Editor Preview ---
+    // Notes fly in with the (possibly scrubbed) audio, without spawning or collisions
+    if (gameStatus === GameStatus.EDITOR && audioRef.current) {
+        setCurrentTime(audioRef.current.currentTime - audioOffset);
+        return;
+    }
+
     if (gameStatus !== GameStatus.PLAYING || !audioRef.current) return;
 
-    // Sync time with audio
-    const time = audioRef.current.currentTime;
-    setCurrentTime(time);
+    // Cuts still in their follow-through are scored before the song ends or loops
+    const settleCuts = () => applyEvents(engine.flush(), audioRef.current!.currentTime - audioOffset);
 
-    if (audioRef.current.ended) {
-        onSongEnd();
+    // Practice loop: jump back to the lead-in and judge the range afresh
+    if (practice?.loop && (audioRef.current.ended || audioRef.current.currentTime - audioOffset >= practice.end)) {
+        settleCuts();
+        audioRef.current.currentTime = practiceAudioStart(practice);
+        if (audioRef.current.paused) audioRef.current.play();
+        restartAt(practice.start);
         return;
     }
 
-    // 1. Spawn Notes
-    // Look ahead by the time it takes for a note to travel from spawn to player
-    const spawnAheadTime = Math.abs(SPAWN_Z - PLAYER_Z) / noteSpeed;
-    
-    while (nextNoteIndexRef.current < notesState.length) {
-      const nextNote = notesState[nextNoteIndexRef.current];
-      if (nextNote.time - spawnAheadTime <= time) {
-        activeNotesRef.current.push(nextNote);
-        nextNoteIndexRef.current++;
-      } else {
-        break;
-      }
+    if (audioRef.current.ended) {
+        settleCuts();
+        onSongEnd();
+        return;
     }
 
-    // 2. Update & Collide Notes
-    const hands = handPositionsRef.current as HandPositions;
-
-    for (let i = activeNotesRef.current.length - 1; i >= 0; i--) {
-        const note = activeNotesRef.current[i];
-        if (note.hit || note.missed) continue;
-
-        // Calculate current Z position based on time and variable speed
-        const timeDiff = note.time - time; 
-        const currentZ = PLAYER_Z - (timeDiff * noteSpeed);
-
-        // Miss check (passed player)
-        if (currentZ > MISS_Z) {
-            note.missed = true;
-            onNoteMiss(note);
-            activeNotesRef.current.splice(i, 1);
-            continue;
-        }
-
-        // Collision check (only if near player)
-        // Widened window for more forgiveness
-        if (currentZ > PLAYER_Z - 1.5 && currentZ < PLAYER_Z + 1.0) {
-            const handPos = note.type === 'left' ? hands.left : hands.right;
-            const handVel = note.type === 'left' ? hands.leftVelocity : hands.rightVelocity;
-
-            if (handPos) {
-                 const notePos = vecA.set(
-                     LANE_X_POSITIONS[note.lineIndex],
-                     LAYER_Y_POSITIONS[note.lineLayer],
-                     currentZ
-                 );
-
-                 // Collision radius 0.8
-                 if (handPos.distanceTo(notePos) < 0.8) {
-                     let goodCut = true;
-                     const speed = handVel.length();
-
-                     // Reduced required speed from 2.0 to 1.5 for easier cutting
-                     if (note.cutDirection !== CutDirection.ANY) {
-                         const requiredDir = DIRECTION_VECTORS[note.cutDirection];
-                         vecB.copy(handVel).normalize();
-                         const dot = vecB.dot(requiredDir);
-                         
-                         if (dot < 0.3 || speed < 1.5) { 
-                             goodCut = false;
-                         }
-                     } else {
-                         if (speed < 1.5) goodCut = false; 
-                     }
-
-                     note.hit = true;
-                     note.hitTime = time;
-                     handleHit(note, goodCut);
-                     activeNotesRef.current.splice(i, 1);
-                 }
-            }
-        }
+    // Sync time with what the player hears
+    const songTime = audioRef.current.currentTime - audioOffset;
+    if (replay) {
+        replay.framesUntil(songTime).forEach(step);
+    } else {
+        const frame = captureFrame(songTime, state.clock.elapsedTime, delta, handPositionsRef.current as HandPositions, headPositionRef.current);
+        recorder?.recordFrame(frame);
+        step(frame);
     }
   });
 
   // Map active notes to components. 
   const visibleNotes = useMemo(() => {
-     return notesState.filter(n => 
+     return engine.notes.filter(n => 
          !n.missed && 
          (!n.hit || (currentTime - (n.hitTime || 0) < 0.5)) && // Keep hit notes for 0.5s
          (n.time - currentTime) < 5 && 
          (n.time - currentTime) > -2 
      );
-  }, [notesState, currentTime]);
+  }, [engine, currentTime]);
+
+  const visibleObstacles = useMemo(() => {
+     return obstacles.filter(o =>
+         (o.time - currentTime) < 5 &&
+         (o.time + o.duration - currentTime) > -1
+     );
+  }, [obstacles, currentTime]);
+
+  const visiblePopups = useMemo(() => {
+     return popups.filter(p => currentTime - p.time < POPUP_DURATION && currentTime >= p.time);
+  }, [popups, currentTime]);
 
   // Refs for visual sabers
   const leftHandPosRef = useRef<THREE.Vector3 | null>(null);
   const rightHandPosRef = useRef<THREE.Vector3 | null>(null);
   const leftHandVelRef = useRef<THREE.Vector3 | null>(null);
   const rightHandVelRef = useRef<THREE.Vector3 | null>(null);
+  const leftHandDirRef = useRef<THREE.Vector3 | null>(null);
+  const rightHandDirRef = useRef<THREE.Vector3 | null>(null);
 
   useFrame(() => {
      if (gameStatus === GameStatus.PAUSED) return;
-     leftHandPosRef.current = handPositionsRef.current.left;
-     rightHandPosRef.current = handPositionsRef.current.right;
-     leftHandVelRef.current = handPositionsRef.current.leftVelocity;
-     rightHandVelRef.current = handPositionsRef.current.rightVelocity;
+     const hands = replay ? replayHandsRef.current : handPositionsRef.current as HandPositions;
+     leftHandPosRef.current = hands ? hands.left : null;
+     rightHandPosRef.current = hands ? hands.right : null;
+     leftHandVelRef.current = hands ? hands.leftVelocity : null;
+     rightHandVelRef.current = hands ? hands.rightVelocity : null;
+     leftHandDirRef.current = hands ? hands.leftDirection : null;
+     rightHandDirRef.current = hands ? hands.rightDirection : null;
   });
 
   return (
@@ -237,16 +287,32 @@ const GameScene: React.FC<GameSceneProps> = ({
       
       <Stars radius={50} depth={50} count={2000} factor={4} saturation={0} fade speed={1} />
 
-      <Saber type="left" positionRef={leftHandPosRef} velocityRef={leftHandVelRef} colors={colors} />
-      <Saber type="right" positionRef={rightHandPosRef} velocityRef={rightHandVelRef} colors={colors} />
+      <Saber type="left" positionRef={leftHandPosRef} velocityRef={leftHandVelRef} directionRef={leftHandDirRef} colors={colors} />
+      <Saber type="right" positionRef={rightHandPosRef} velocityRef={rightHandVelRef} directionRef={rightHandDirRef} colors={colors} />
+
+      {visiblePopups.map(p => (
+          <ScorePopup key={p.id} position={p.position} cut={p.cut} colors={colors} />
+      ))}
+
+      {visibleObstacles.map(wall => (
+          <Obstacle
+            key={wall.id}
+            data={wall}
+            zFront={trackZ(wall.time, currentTime, noteSpeed)}
+            length={wall.duration * noteSpeed}
+            isColliding={wall.id === collidingWallId}
+          />
+      ))}
 
       {visibleNotes.map(note => (
           <Note 
             key={note.id} 
             data={note} 
-            zPos={PLAYER_Z - ((note.time - currentTime) * noteSpeed)} 
+            zPos={trackZ(note.time, currentTime, noteSpeed)} 
             currentTime={currentTime}
             colors={colors}
+            disappearing={modifiers.includes(Modifier.DISAPPEARING_NOTES)}
+            ghost={modifiers.includes(Modifier.GHOST_NOTES)}
           />
       ))}
     </>
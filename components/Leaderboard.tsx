@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { ColorPalette, ScoreRecord } from '../types';
+import { formatModifiers } from '../utils/modifiers';
+
+interface LeaderboardProps {
+  entries: ScoreRecord[];   // Best first
+  colors: ColorPalette;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { year: '2-digit', month: 'short', day: 'numeric' });
+
+// Local top runs for one song and difficulty
+const Leaderboard: React.FC<LeaderboardProps> = ({ entries, colors }) => {
+  if (entries.length === 0) {
+    return <p className="text-[10px] font-rajdhani text-gray-500 tracking-wider">NO RUNS YET</p>;
+  }
+
+  return (
+    <table className="w-full max-w-md font-mono text-xs text-gray-300">
+      <tbody>
+        {entries.map((entry, i) => (
+          <tr key={entry.id ?? i} className={i === 0 ? 'text-white' : undefined}>
+            <td className="pr-2 text-right" style={{ color: i === 0 ? colors.world.text : undefined }}>{i + 1}</td>
+            <td className="pr-3 text-right font-bold">{entry.score.toLocaleString()}</td>
+            <td className="pr-3 text-right">{(entry.accuracy * 100).toFixed(1)}%</td>
+            <td className="pr-3 text-right">{entry.maxCombo}x</td>
+            <td className="pr-3 text-gray-400">{formatModifiers(entry.modifiers)}</td>
+            <td className={`pr-3 ${entry.cleared ? 'text-green-400' : 'text-red-400'}`}>{entry.cleared ? 'CLEAR' : 'FAIL'}</td>
+            <td className="text-gray-500">{formatDate(entry.date)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { ColorPalette, MotionFilterSettings, MotionFilterType } from '../types';
+import { MOTION_FILTERS } from '../constants';
+
+interface MotionFilterControlsProps {
+  value: MotionFilterSettings;
+  colors: ColorPalette;
+  onChange: (value: MotionFilterSettings) => void;
+}
+
+type Param = Exclude<keyof MotionFilterSettings, 'type'>;
+
+// Tunable parameters, and which filter uses them (prediction applies to all)
+const PARAMS: Record<Param, { label: string; step: number; min: number; max: number; unit: string; filter?: MotionFilterType }> = {
+  minCutoff: { label: 'MIN CUTOFF', step: 0.25, min: 0.25, max: 10, unit: 'Hz', filter: MotionFilterType.ONE_EURO },
+  beta: { label: 'BETA', step: 0.1, min: 0, max: 5, unit: '', filter: MotionFilterType.ONE_EURO },
+  processNoise: { label: 'ACCELERATION', step: 5, min: 5, max: 200, unit: '', filter: MotionFilterType.KALMAN },
+  measurementNoise: { label: 'JITTER', step: 0.01, min: 0.01, max: 0.3, unit: '', filter: MotionFilterType.KALMAN },
+  predictionMs: { label: 'PREDICTION', step: 5, min: 0, max: 100, unit: 'ms' }
+};
+
+// Round away float drift from repeated steps
+const roundTo = (v: number, step: number) => Math.round(v / step) * step;
+
+const MotionFilterControls: React.FC<MotionFilterControlsProps> = ({ value, colors, onChange }) => {
+  const set = (param: Param, next: number) => {
+    const { step, min, max } = PARAMS[param];
+    onChange({ ...value, [param]: Math.min(max, Math.max(min, roundTo(next, step))) });
+  };
+
+  const params = (Object.keys(PARAMS) as Param[]).filter(p => !PARAMS[p].filter || PARAMS[p].filter === value.type);
+
+  return (
+    <div className="flex flex-col items-center">
+      <div className="flex flex-wrap justify-center gap-2">
+        {(Object.keys(MOTION_FILTERS) as MotionFilterType[]).map((t) => (
+          <button
+            key={t}
+            onClick={() => onChange({ ...value, type: t })}
+            className={`relative px-4 py-2 font-orbitron font-bold text-xs tracking-wider transition-all cyber-button-clip ${
+              value.type === t
+                ? 'text-white shadow-[0_0_15px_rgba(37,99,235,0.6)] scale-110 z-10'
+                : 'bg-gray-900 text-gray-500 hover:bg-gray-800 hover:text-gray-300'
+            }`}
+            style={{ backgroundColor: value.type === t ? colors.world.gridAccent : undefined }}
+          >
+            {MOTION_FILTERS[t].label.toUpperCase()}
+          </button>
+        ))}
+      </div>
+      <p className="mt-2 text-[10px] font-rajdhani text-gray-500 tracking-wider">{MOTION_FILTERS[value.type].hint.toUpperCase()}</p>
+      <div className="mt-2 flex flex-wrap justify-center gap-x-4 gap-y-1">
+        {params.map((p) => (
+          <div key={p} className="flex items-center gap-1">
+            <span className="text-[10px] font-orbitron text-gray-400 tracking-widest">{PARAMS[p].label}</span>
+            <button onClick={() => set(p, value[p] - PARAMS[p].step)} className="w-5 h-5 text-xs bg-gray-900 hover:bg-gray-800 text-white">−</button>
+            <span className="w-14 text-center text-xs font-mono text-white">{Number(value[p].toFixed(2))}{PARAMS[p].unit && ` ${PARAMS[p].unit}`}</span>
+            <button onClick={() => set(p, value[p] + PARAMS[p].step)} className="w-5 h-5 text-xs bg-gray-900 hover:bg-gray-800 text-white">+</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MotionFilterControls;
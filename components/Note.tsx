@@ -4,20 +4,27 @@
 */
 
 
-import React, { useMemo, useRef } from 'react';
-import { Extrude, Octahedron } from '@react-three/drei';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Extrude } from '@react-three/drei';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { NoteData, ColorPalette } from '../types';
-import { LANE_X_POSITIONS, LAYER_Y_POSITIONS, NOTE_SIZE } from '../constants';
+import { NoteData, NoteSlice, ColorPalette, CutDirection } from '../types';
+import { LANE_X_POSITIONS, LAYER_Y_POSITIONS, NOTE_SIZE, DIRECTION_ANGLES, BOMB_COLORS, GHOST_NOTE_COLOR, PLAYER_Z } from '../constants';
+import { sliceMesh } from '../utils/meshSlicing';
 
 interface NoteProps {
   data: NoteData;
   zPos: number;
   currentTime: number;
   colors: ColorPalette;
+  disappearing: boolean; // Fade out on the way in
+  ghost: boolean;        // Drawn without the hand color
 }
 
+// Disappearing Notes: fully visible this far from the player (world units), gone at the second
+const DISAPPEAR_START = 14;
+const DISAPPEAR_END = 7;
+
 // --- SPARK SHAPE GENERATOR ---
 // Creates the iconic 4-pointed star shape with concave edges
 const createSparkShape = (size: number) => {
@@ -38,80 +45,174 @@ const createSparkShape = (size: number) => {
   return shape;
 };
 
+// --- ARROW SHAPE ---
+// Chevron pointing up (+Y); rotated per cut direction
+const createArrowShape = (size: number) => {
+  const shape = new THREE.Shape();
+  const w = size * 0.32;
+  const h = size * 0.22;
+  const t = size * 0.09; // Stroke thickness
+
+  shape.moveTo(0, h);
+  shape.lineTo(w, -h + t);
+  shape.lineTo(w, -h + t * 2.2);
+  shape.lineTo(0, h - t * 1.6);
+  shape.lineTo(-w, -h + t * 2.2);
+  shape.lineTo(-w, -h + t);
+  shape.closePath();
+
+  return shape;
+};
+
 const SPARK_SHAPE = createSparkShape(NOTE_SIZE);
+const ARROW_SHAPE = createArrowShape(NOTE_SIZE);
 const EXTRUDE_SETTINGS = { depth: NOTE_SIZE * 0.4, bevelEnabled: true, bevelThickness: 0.05, bevelSize: 0.05, bevelSegments: 3 };
 
-const Debris: React.FC<{ data: NoteData, timeSinceHit: number, color: string }> = ({ data, timeSinceHit, color }) => {
-    const groupRef = useRef<THREE.Group>(null);
+const SPARK_GEOMETRY = new THREE.ExtrudeGeometry(SPARK_SHAPE, EXTRUDE_SETTINGS).translate(0, 0, -NOTE_SIZE * 0.2);
+
+// Sliced halves: pushed apart across the cut, carried along by the swing
+const SEPARATION_SPEED = 2.5;
+const SWING_CARRY = 0.4;    // Fraction of the hand's speed the halves inherit
+const MAX_CARRY_SPEED = 4;
+const SPIN_SPEED = 6;       // Radians per second each half turns away from the cut
+
+const SlicedNote: React.FC<{ slice: NoteSlice, timeSinceHit: number, color: string }> = ({ slice, timeSinceHit, color }) => {
     const flashRef = useRef<THREE.Mesh>(null);
 
-    // Animation parameters
-    const flySpeed = 6.0;
-    const rotationSpeed = 10.0;
-    const distance = flySpeed * timeSinceHit;
+    const { halves, normal, carry, spinAxis } = useMemo(() => {
+        const normal = new THREE.Vector3(...slice.normal);
+        const limit = NOTE_SIZE / 2;
+        const point = new THREE.Vector3(...slice.point).clampScalar(-limit, limit);
+        const halves = sliceMesh(SPARK_GEOMETRY, new THREE.Plane().setFromNormalAndCoplanarPoint(normal, point));
+        const swing = new THREE.Vector3(...slice.swing);
+        const carry = swing.clone().multiplyScalar(SWING_CARRY).clampLength(0, MAX_CARRY_SPEED);
+        // Halves tumble about the axis across both the cut and the swing
+        const spinAxis = new THREE.Vector3().crossVectors(normal, swing.lengthSq() > 1e-6 ? swing : new THREE.Vector3(0, 0, -1));
+        if (spinAxis.lengthSq() < 1e-8) spinAxis.set(0, 0, 1);
+        return { halves, normal, carry, spinAxis: spinAxis.normalize() };
+    }, [slice]);
+
+    useEffect(() => () => {
+        halves.front.dispose();
+        halves.back.dispose();
+        halves.cap.dispose();
+    }, [halves]);
 
     useFrame(() => {
-        if (groupRef.current) {
-             groupRef.current.scale.setScalar(Math.max(0.01, 1 - timeSinceHit * 1.5));
-        }
         if (flashRef.current) {
             const flashDuration = 0.15;
             if (timeSinceHit < flashDuration) {
                 const t = timeSinceHit / flashDuration;
                 flashRef.current.visible = true;
-                flashRef.current.scale.setScalar(1 + t * 4);
+                flashRef.current.scale.setScalar(1 + t * 2);
                 (flashRef.current.material as THREE.MeshBasicMaterial).opacity = 1 - t;
             } else {
                 flashRef.current.visible = false;
             }
         }
     });
-    
-    // Shards simulate the spark shattering into crystals
-    const Shard = ({ offsetDir, moveDir, scale = 1 }: { offsetDir: number[], moveDir: number[], scale?: number }) => {
-        const meshRef = useRef<THREE.Mesh>(null);
-
-        useFrame(() => {
-             if (meshRef.current) {
-                 meshRef.current.position.x = offsetDir[0] + moveDir[0] * distance;
-                 meshRef.current.position.y = offsetDir[1] + moveDir[1] * distance;
-                 meshRef.current.position.z = offsetDir[2] + moveDir[2] * distance;
-
-                 meshRef.current.rotation.x += moveDir[1] * 0.1 * rotationSpeed;
-                 meshRef.current.rotation.y += moveDir[0] * 0.1 * rotationSpeed;
-             }
-        });
 
+    const fade = Math.max(0.01, 1 - timeSinceHit * 1.5);
+    const half = (side: 1 | -1, geometry: THREE.BufferGeometry) => {
+        const position = normal.clone().multiplyScalar(side * SEPARATION_SPEED * timeSinceHit).addScaledVector(carry, timeSinceHit);
+        const quaternion = new THREE.Quaternion().setFromAxisAngle(spinAxis, side * SPIN_SPEED * timeSinceHit);
         return (
-            <Octahedron ref={meshRef} args={[NOTE_SIZE * 0.3 * scale]} position={[offsetDir[0], offsetDir[1], offsetDir[2]]}>
-                 <meshStandardMaterial color={color} roughness={0.1} metalness={0.9} emissive={color} emissiveIntensity={0.5} />
-            </Octahedron>
-        )
-    }
+            <group position={position} quaternion={quaternion} scale={fade}>
+                <mesh geometry={geometry}>
+                    <meshStandardMaterial color={color} roughness={0.2} metalness={0.1} emissive={color} emissiveIntensity={0.8} side={THREE.DoubleSide} />
+                </mesh>
+                {/* Glowing cross-section */}
+                <mesh geometry={halves.cap}>
+                    <meshBasicMaterial color="white" toneMapped={false} side={THREE.DoubleSide} />
+                </mesh>
+            </group>
+        );
+    };
+
+    return (
+        <group>
+            {/* Hit Flash: a thin sheet along the cut */}
+            <mesh ref={flashRef} quaternion={new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal)}>
+                <circleGeometry args={[NOTE_SIZE * 0.8, 24]} />
+                <meshBasicMaterial color="white" transparent toneMapped={false} side={THREE.DoubleSide} />
+            </mesh>
+            {half(1, halves.front)}
+            {half(-1, halves.back)}
+        </group>
+    );
+};
+
+// --- BOMB ---
+// Spike directions: the 6 axes plus the 8 cube diagonals
+const BOMB_SPIKES: THREE.Quaternion[] = [
+    [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1],
+    [1, 1, 1], [1, 1, -1], [1, -1, 1], [1, -1, -1], [-1, 1, 1], [-1, 1, -1], [-1, -1, 1], [-1, -1, -1]
+].map(([x, y, z]) => new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), new THREE.Vector3(x, y, z).normalize()));
+
+const Bomb: React.FC = () => {
+    const groupRef = useRef<THREE.Group>(null);
+    const coreRef = useRef<THREE.MeshBasicMaterial>(null);
+
+    useFrame((state, delta) => {
+        if (groupRef.current) {
+            groupRef.current.rotation.x += delta * 1.5;
+            groupRef.current.rotation.y += delta * 2.0;
+        }
+        // Menacing pulse
+        if (coreRef.current) {
+            coreRef.current.opacity = 0.5 + Math.sin(state.clock.elapsedTime * 10) * 0.3;
+        }
+    });
+
+    const radius = NOTE_SIZE * 0.35;
 
     return (
         <group ref={groupRef}>
-            {/* Hit Flash */}
-            <mesh ref={flashRef}>
-                <sphereGeometry args={[NOTE_SIZE * 1.2, 16, 16]} />
-                <meshBasicMaterial color="white" transparent toneMapped={false} />
+            <mesh castShadow>
+                <icosahedronGeometry args={[radius, 1]} />
+                <meshStandardMaterial color={BOMB_COLORS.body} roughness={0.4} metalness={0.9} />
+            </mesh>
+            {BOMB_SPIKES.map((q, i) => (
+                <group key={i} quaternion={q}>
+                    <mesh position={[0, radius * 1.15, 0]}>
+                        <coneGeometry args={[radius * 0.18, radius * 0.6, 6]} />
+                        <meshStandardMaterial color={BOMB_COLORS.body} emissive={BOMB_COLORS.glow} emissiveIntensity={0.6} roughness={0.3} metalness={0.8} />
+                    </mesh>
+                </group>
+            ))}
+            {/* Glowing core seen through the gaps */}
+            <mesh>
+                <sphereGeometry args={[radius * 1.05, 16, 16]} />
+                <meshBasicMaterial ref={coreRef} color={BOMB_COLORS.glow} toneMapped={false} transparent opacity={0.5} />
             </mesh>
+        </group>
+    );
+};
 
-            {/* Shattered Pieces - 4-way burst for the 4 star points */}
-            <Shard offsetDir={[0, 0.2, 0]} moveDir={[0, 1.5, -0.5]} scale={0.8} />
-            <Shard offsetDir={[0.2, 0, 0]} moveDir={[1.5, 0, -0.5]} scale={0.8} />
-            <Shard offsetDir={[0, -0.2, 0]} moveDir={[0, -1.5, -0.5]} scale={0.8} />
-            <Shard offsetDir={[-0.2, 0, 0]} moveDir={[-1.5, 0, -0.5]} scale={0.8} />
-            
-            {/* Center core shards */}
-            <Shard offsetDir={[0.1, 0.1, 0.1]} moveDir={[1, 1, 1]} scale={0.5} />
-            <Shard offsetDir={[-0.1, -0.1, -0.1]} moveDir={[-1, -1, 1]} scale={0.5} />
+const BombBlast: React.FC<{ timeSinceHit: number }> = ({ timeSinceHit }) => {
+    const duration = 0.5;
+    const t = Math.min(1, timeSinceHit / duration);
+
+    return (
+        <group>
+            {/* Expanding fireball */}
+            <mesh scale={0.3 + t * 2.5}>
+                <sphereGeometry args={[NOTE_SIZE, 16, 16]} />
+                <meshBasicMaterial color={BOMB_COLORS.glow} toneMapped={false} transparent opacity={(1 - t) * 0.8} />
+            </mesh>
+            {/* Shockwave ring */}
+            <mesh scale={0.5 + t * 4}>
+                <torusGeometry args={[NOTE_SIZE, 0.03, 8, 32]} />
+                <meshBasicMaterial color="white" toneMapped={false} transparent opacity={1 - t} />
+            </mesh>
         </group>
     );
 };
 
-const Note: React.FC<NoteProps> = ({ data, zPos, currentTime, colors }) => {
-  const color = data.type === 'left' ? colors.left : colors.right;
+const Note: React.FC<NoteProps> = ({ data, zPos, currentTime, colors, disappearing, ghost }) => {
+  const handColor = data.type === 'left' ? colors.left : colors.right;
+  const color = ghost ? GHOST_NOTE_COLOR : handColor;
+  const opacity = disappearing ? THREE.MathUtils.clamp((PLAYER_Z - zPos - DISAPPEAR_END) / (DISAPPEAR_START - DISAPPEAR_END), 0, 1) : 1;
   
   const position: [number, number, number] = useMemo(() => {
      return [
@@ -123,14 +224,26 @@ const Note: React.FC<NoteProps> = ({ data, zPos, currentTime, colors }) => {
 
   if (data.missed) return null;
 
+  if (data.type === 'bomb') {
+      return (
+          <group position={position}>
+              {data.hit && data.hitTime ? <BombBlast timeSinceHit={currentTime - data.hitTime} /> : <Bomb />}
+          </group>
+      );
+  }
+
   if (data.hit && data.hitTime) {
+      if (!data.slice) return null;
       return (
           <group position={position}>
-              <Debris data={data} timeSinceHit={currentTime - data.hitTime} color={color} />
+              <SlicedNote slice={data.slice} timeSinceHit={currentTime - data.hitTime} color={handColor} />
           </group>
       );
   }
 
+  if (opacity <= 0) return null;
+  const fading = opacity < 1;
+
   return (
     <group position={position}>
       {/* Main Spark Shape */}
@@ -146,22 +259,34 @@ const Note: React.FC<NoteProps> = ({ data, zPos, currentTime, colors }) => {
                     thickness={0.5}
                     emissive={color}
                     emissiveIntensity={0.8} // Glowing inner light
+                    transparent={fading}
+                    opacity={opacity}
                 />
             </Extrude>
         </group>
       </group>
       
-      {/* Inner Core Glow (Replaces Arrow) */}
-      <mesh position={[0, 0, NOTE_SIZE * 0.1]}>
-         <octahedronGeometry args={[NOTE_SIZE * 0.2, 0]} />
-         <meshBasicMaterial color="white" toneMapped={false} transparent opacity={0.8} />
-      </mesh>
+      {data.cutDirection === CutDirection.ANY ? (
+          /* Inner Core Glow (dot note: any direction) */
+          <mesh position={[0, 0, NOTE_SIZE * 0.1]}>
+             <octahedronGeometry args={[NOTE_SIZE * 0.2, 0]} />
+             <meshBasicMaterial color="white" toneMapped={false} transparent opacity={0.8 * opacity} />
+          </mesh>
+      ) : (
+          /* Direction Arrow on the front face */
+          <group position={[0, 0, NOTE_SIZE * 0.36]} rotation={[0, 0, DIRECTION_ANGLES[data.cutDirection]]}>
+             <mesh position={[0, NOTE_SIZE * 0.05, 0]}>
+                <shapeGeometry args={[ARROW_SHAPE]} />
+                <meshBasicMaterial color="white" toneMapped={false} side={THREE.DoubleSide} transparent={fading} opacity={opacity} />
+             </mesh>
+          </group>
+      )}
 
       {/* Outer Wireframe Glow for emphasis */}
       <group position={[0, 0, -NOTE_SIZE * 0.2]}>
           <mesh>
              <extrudeGeometry args={[SPARK_SHAPE, { ...EXTRUDE_SETTINGS, depth: EXTRUDE_SETTINGS.depth * 1.1 }]} />
-             <meshBasicMaterial color={color} wireframe transparent opacity={0.3} />
+             <meshBasicMaterial color={color} wireframe transparent opacity={0.3 * opacity} />
           </mesh>
       </group>
     </group>
@@ -170,5 +295,6 @@ const Note: React.FC<NoteProps> = ({ data, zPos, currentTime, colors }) => {
 
 export default React.memo(Note, (prev, next) => {
     if (next.data.hit) return false;
-    return prev.zPos === next.zPos && prev.data.hit === next.data.hit && prev.data.missed === next.data.missed && prev.colors === next.colors;
+    return prev.zPos === next.zPos && prev.data.hit === next.data.hit && prev.data.missed === next.data.missed && prev.colors === next.colors
+        && prev.disappearing === next.disappearing && prev.ghost === next.ghost;
 });
\ No newline at end of file
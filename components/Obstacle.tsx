@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useMemo } from 'react';
+import { Edges } from '@react-three/drei';
+import { ObstacleData } from '../types';
+import { WALL_COLOR, getObstacleBounds } from '../constants';
+
+interface ObstacleProps {
+  data: ObstacleData;
+  zFront: number;  // Z of the face closest to the player
+  length: number;  // Depth along the track (duration * note speed)
+  isColliding: boolean;
+}
+
+const Obstacle: React.FC<ObstacleProps> = ({ data, zFront, length, isColliding }) => {
+  const bounds = useMemo(() => getObstacleBounds(data), [data]);
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+
+  return (
+    <group position={[(bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2, zFront - length / 2]}>
+      <mesh>
+        <boxGeometry args={[width, height, length]} />
+        <meshStandardMaterial
+            color={WALL_COLOR}
+            emissive={WALL_COLOR}
+            emissiveIntensity={isColliding ? 1.5 : 0.4}
+            transparent
+            opacity={isColliding ? 0.45 : 0.25}
+            depthWrite={false}
+        />
+        {/* Bright frame so the wall's extent reads at speed */}
+        <Edges color={WALL_COLOR} lineWidth={2} />
+      </mesh>
+    </group>
+  );
+};
+
+export default Obstacle;
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useMemo } from 'react';
+import { ColorPalette, NoteData, PracticeSettings, TempoMap } from '../types';
+import { PRACTICE_SPEEDS, songSections, selectSection, formatSongTime } from '../utils/practice';
+
+interface PracticeControlsProps {
+  practice: PracticeSettings;
+  duration: number;  // Song length (seconds)
+  notes: NoteData[]; // Chart of the picked difficulty, for the density shown per section
+  tempo: TempoMap;
+  colors: ColorPalette;
+  onChange: (practice: PracticeSettings) => void;
+}
+
+// Song progress bar split into sections, with the start, loop range and speed of a practice run
+const PracticeControls: React.FC<PracticeControlsProps> = ({ practice, duration, notes, tempo, colors, onChange }) => {
+  const sections = useMemo(() => songSections(tempo, notes, duration), [tempo, notes, duration]);
+  const busiest = Math.max(1, ...sections.map(s => s.notes));
+
+  return (
+    <div className="w-full flex flex-col gap-2 font-rajdhani">
+      {/* Sections: brighter is denser. Click picks one, shift-click extends the range. */}
+      <div className="relative flex h-8 w-full bg-gray-900 overflow-hidden">
+        {sections.map((section) => {
+          const inRange = section.start >= practice.start - 1e-3 && section.end <= practice.end + 1e-3;
+          return (
+            <button
+              key={section.bar}
+              onClick={(e) => onChange(selectSection(practice, section, e.shiftKey))}
+              title={`Bar ${section.bar} · ${formatSongTime(section.start)} · ${section.notes} notes`}
+              className="h-full border-r border-black/60 transition-all hover:brightness-150"
+              style={{
+                width: `${((section.end - section.start) / duration) * 100}%`,
+                backgroundColor: inRange ? colors.world.gridAccent : colors.world.grid,
+                opacity: 0.25 + 0.75 * (section.notes / busiest)
+              }}
+            />
+          );
+        })}
+        {/* Start marker */}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none" style={{ left: `${(practice.start / duration) * 100}%` }} />
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={0.5}
+        value={practice.start}
+        onChange={(e) => {
+          const start = Number(e.target.value);
+          onChange({ ...practice, start, end: Math.max(practice.end, Math.min(duration, start + 1)) });
+        }}
+        className="w-full accent-blue-500"
+      />
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>START {formatSongTime(practice.start)}</span>
+        <span>{practice.loop ? `LOOP ${formatSongTime(practice.start)} – ${formatSongTime(practice.end)}` : `PLAYS TO ${formatSongTime(duration)}`}</span>
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button
+          onClick={() => onChange({ ...practice, loop: !practice.loop })}
+          className="flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip"
+        >
+          LOOP: {practice.loop ? 'ON' : 'OFF'}
+        </button>
+        {PRACTICE_SPEEDS.map((speed) => (
+          <button
+            key={speed}
+            onClick={() => onChange({ ...practice, speed })}
+            className={`px-2 py-1 font-orbitron font-bold text-xs transition-all cyber-button-clip ${
+              practice.speed === speed ? 'text-white' : 'bg-gray-900 text-gray-500 hover:bg-gray-800 hover:text-gray-300'
+            }`}
+            style={{ backgroundColor: practice.speed === speed ? colors.world.gridAccent : undefined }}
+          >
+            {Math.round(speed * 100)}%
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PracticeControls;
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { ColorPalette, HandType } from '../types';
+import { SessionSummary, TIMING_BIN, TIMING_RANGE } from '../utils/sessionStats';
+
+interface ResultsAnalyticsProps {
+  summary: SessionSummary;
+  colors: ColorPalette;
+  duration: number; // Song length in seconds, for the score graph's time axis
+}
+
+const GRAPH_WIDTH = 300;
+const GRAPH_HEIGHT = 60;
+
+const percent = (v: number) => `${(v * 100).toFixed(1)}%`;
+const ms = (v: number | null) => v === null ? '—' : `${v > 0 ? '+' : ''}${Math.round(v * 1000)} MS`;
+
+// Breakdown of a finished run for the results screen
+const ResultsAnalytics: React.FC<ResultsAnalyticsProps> = ({ summary, colors, duration }) => {
+  const maxBin = Math.max(1, ...summary.timingHistogram);
+  const finalScore = summary.scoreTimeline[summary.scoreTimeline.length - 1]?.score ?? 0;
+  const span = Math.max(duration, summary.scoreTimeline[summary.scoreTimeline.length - 1]?.time ?? 0, 1);
+  const graph = [{ time: 0, score: 0 }, ...summary.scoreTimeline]
+    .map(p => `${(p.time / span * GRAPH_WIDTH).toFixed(1)},${(GRAPH_HEIGHT - p.score / Math.max(1, finalScore) * GRAPH_HEIGHT).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <div className="flex flex-col gap-4 font-rajdhani text-left">
+      {/* Headline */}
+      <div className="flex items-center justify-around">
+        <div className="text-center">
+          <p className="font-orbitron text-5xl font-black text-white text-glow-white">{summary.rank}</p>
+          {summary.fullCombo && <p className="text-[10px] font-orbitron text-yellow-400 tracking-widest">FULL COMBO</p>}
+        </div>
+        <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+          <span className="text-gray-400">ACCURACY</span><span className="font-mono text-white text-right">{percent(summary.accuracy)}</span>
+          <span className="text-gray-400">MAX COMBO</span><span className="font-mono text-white text-right">{summary.maxCombo}</span>
+          <span className="text-gray-400">NOTES HIT</span><span className="font-mono text-white text-right">{summary.hits} / {summary.notes}</span>
+        </div>
+      </div>
+
+      {/* Per Hand */}
+      <table className="w-full text-xs font-mono text-gray-300">
+        <thead>
+          <tr className="text-gray-500 font-orbitron text-[10px] tracking-widest">
+            <th className="text-left font-normal">HAND</th>
+            <th className="text-right font-normal">HIT</th>
+            <th className="text-right font-normal">MISS</th>
+            <th className="text-right font-normal">WRONG</th>
+            <th className="text-right font-normal">ACC</th>
+            <th className="text-right font-normal">TIMING</th>
+            <th className="text-right font-normal">SPEED</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(['left', 'right'] as HandType[]).map((hand) => {
+            const stats = summary.hands[hand];
+            return (
+              <tr key={hand}>
+                <td className="font-bold" style={{ color: colors[hand] }}>{hand.toUpperCase()}</td>
+                <td className="text-right">{stats.hits}</td>
+                <td className="text-right">{stats.misses}</td>
+                <td className="text-right">{stats.wrongDirection}</td>
+                <td className="text-right">{percent(stats.accuracy)}</td>
+                <td className="text-right">{ms(stats.meanTiming)}</td>
+                <td className="text-right">{stats.meanSpeed === null ? '—' : stats.meanSpeed.toFixed(1)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {/* Timing Histogram */}
+      <div>
+        <p className="font-orbitron text-[10px] text-gray-500 tracking-widest mb-1">TIMING</p>
+        <div className="flex items-end gap-px h-12">
+          {summary.timingHistogram.map((count, i) => {
+            const center = -TIMING_RANGE + (i + 0.5) * TIMING_BIN;
+            return (
+              <div
+                key={i}
+                className="flex-1"
+                title={`${Math.round(center * 1000)} ms: ${count}`}
+                style={{ height: `${count / maxBin * 100}%`, backgroundColor: Math.abs(center) < TIMING_BIN ? colors.world.text : colors.world.gridAccent }}
+              />
+            );
+          })}
+        </div>
+        <div className="flex justify-between text-[9px] font-mono text-gray-500">
+          <span>EARLY {Math.round(TIMING_RANGE * 1000)} MS</span><span>0</span><span>LATE {Math.round(TIMING_RANGE * 1000)} MS</span>
+        </div>
+      </div>
+
+      {/* Score Over Time */}
+      <div>
+        <p className="font-orbitron text-[10px] text-gray-500 tracking-widest mb-1">SCORE</p>
+        <svg viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`} preserveAspectRatio="none" className="w-full h-16 bg-white/5">
+          <polyline points={graph} fill="none" stroke={colors.world.text} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default ResultsAnalytics;
@@ -4,38 +4,108 @@
 */
 
 
-import React, { useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { HandType, ColorPalette } from '../types';
+import { SABER_LENGTH } from '../constants';
 
 interface SaberProps {
   type: HandType;
   positionRef: React.MutableRefObject<THREE.Vector3 | null>;
   velocityRef: React.MutableRefObject<THREE.Vector3 | null>;
+  directionRef: React.MutableRefObject<THREE.Vector3 | null>; // Blade direction from the hand pose, if known
   colors: ColorPalette;
 }
 
-const Saber: React.FC<SaberProps> = ({ type, positionRef, velocityRef, colors }) => {
+// The blade runs along the group's local +Y axis
+const BLADE_AXIS = new THREE.Vector3(0, 1, 0);
+const BLADE_BASE = 0.05; // Where the blade leaves the hilt
+
+// Motion trail: a ribbon through the blade's last few positions, fading with age
+const TRAIL_SAMPLES = 14;
+const TRAIL_TIP_ALPHA = 0.5;
+const TRAIL_BASE_ALPHA = 0.05;
+
+const createTrailGeometry = () => {
+  const geometry = new THREE.BufferGeometry();
+  // Two vertices (blade base, blade tip) per sample
+  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(TRAIL_SAMPLES * 2 * 3), 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(TRAIL_SAMPLES * 2 * 4), 4));
+  const index: number[] = [];
+  for (let i = 0; i < TRAIL_SAMPLES - 1; i++) {
+    const a = i * 2;
+    index.push(a, a + 1, a + 2, a + 1, a + 3, a + 2);
+  }
+  geometry.setIndex(index);
+  geometry.setDrawRange(0, 0);
+  return geometry;
+};
+
+const Saber: React.FC<SaberProps> = ({ type, positionRef, velocityRef, directionRef, colors }) => {
   const meshRef = useRef<THREE.Group>(null);
-  const saberLength = 1.0; 
+  const saberLength = SABER_LENGTH;
+  const color = type === 'left' ? colors.left : colors.right;
+  const trailColor = useMemo(() => new THREE.Color(color), [color]);
 
   // Reusable rotation objects to avoid GC in loop
   const targetRotation = useRef(new THREE.Euler());
   const currentRotation = useRef(new THREE.Euler());
+  const targetQuaternion = useRef(new THREE.Quaternion());
+
+  const trailGeometry = useMemo(createTrailGeometry, []);
+  useEffect(() => () => trailGeometry.dispose(), [trailGeometry]);
+  const trailSamples = useRef(0);
+  const trailPoint = useRef(new THREE.Vector3());
+
+  // Shift the ribbon by one sample and put the current blade at its head
+  const updateTrail = (group: THREE.Group, color: THREE.Color) => {
+    const positions = trailGeometry.getAttribute('position') as THREE.BufferAttribute;
+    const colors = trailGeometry.getAttribute('color') as THREE.BufferAttribute;
+    const array = positions.array as Float32Array;
+    array.copyWithin(6, 0, (TRAIL_SAMPLES - 1) * 6);
+
+    // Same space as the saber group, which shares the trail's parent
+    group.updateMatrix();
+    trailPoint.current.set(0, BLADE_BASE, 0).applyMatrix4(group.matrix).toArray(array, 0);
+    trailPoint.current.set(0, BLADE_BASE + saberLength, 0).applyMatrix4(group.matrix).toArray(array, 3);
+    trailSamples.current = Math.min(TRAIL_SAMPLES, trailSamples.current + 1);
+
+    for (let i = 0; i < trailSamples.current; i++) {
+      const fade = 1 - i / (TRAIL_SAMPLES - 1);
+      colors.setXYZW(i * 2, color.r, color.g, color.b, TRAIL_BASE_ALPHA * fade);
+      colors.setXYZW(i * 2 + 1, color.r, color.g, color.b, TRAIL_TIP_ALPHA * fade);
+    }
+    positions.needsUpdate = true;
+    colors.needsUpdate = true;
+    trailGeometry.setDrawRange(0, Math.max(0, trailSamples.current - 1) * 6);
+  };
+
+  const clearTrail = () => {
+    trailSamples.current = 0;
+    trailGeometry.setDrawRange(0, 0);
+  };
 
   useFrame((state, delta) => {
     if (!meshRef.current) return;
     
     const targetPos = positionRef.current;
     const velocity = velocityRef.current;
+    const direction = directionRef.current;
 
-    if (targetPos) {
+    if (targetPos && direction) {
+      meshRef.current.visible = true;
+      meshRef.current.position.lerp(targetPos, 0.5);
+      // The player aims the blade with their hand
+      targetQuaternion.current.setFromUnitVectors(BLADE_AXIS, direction);
+      meshRef.current.quaternion.slerp(targetQuaternion.current, 0.5);
+    } else if (targetPos) {
       meshRef.current.visible = true;
       // Smooth movement
       meshRef.current.position.lerp(targetPos, 0.5); // Snappy positioning
       
       // --- Dynamic Rotation ---
+      // No hand pose: guess the blade angle from the swing
       // Default 'ready' stance: pointed forward and slightly out
       const restingX = -Math.PI / 3.5; // Tilted forward ~50 degrees
       const restingY = 0;
@@ -79,11 +149,17 @@ const Saber: React.FC<SaberProps> = ({ type, positionRef, velocityRef, colors })
     } else {
       meshRef.current.visible = false;
     }
-  });
 
-  const color = type === 'left' ? colors.left : colors.right;
+    if (meshRef.current.visible) updateTrail(meshRef.current, trailColor);
+    else clearTrail();
+  });
 
   return (
+    <>
+    {/* Trail lives beside the saber, not inside it, since it stays where the blade was */}
+    <mesh geometry={trailGeometry} frustumCulled={false}>
+      <meshBasicMaterial vertexColors transparent blending={THREE.AdditiveBlending} depthWrite={false} side={THREE.DoubleSide} toneMapped={false} />
+    </mesh>
     <group ref={meshRef}>
       {/* --- HANDLE ASSEMBLY --- */}
       {/* Main Grip (Dark Grey/Black) */}
@@ -123,13 +199,13 @@ const Saber: React.FC<SaberProps> = ({ type, positionRef, velocityRef, colors })
 
       {/* --- BLADE ASSEMBLY --- */}
       {/* Inner Core (Bright White) */}
-      <mesh position={[0, 0.05 + saberLength / 2, 0]}>
+      <mesh position={[0, BLADE_BASE + saberLength / 2, 0]}>
         <cylinderGeometry args={[0.008, 0.008, saberLength, 12]} />
         <meshBasicMaterial color="white" toneMapped={false} />
       </mesh>
 
       {/* Outer Glow (Colored) */}
-      <mesh position={[0, 0.05 + saberLength / 2, 0]}>
+      <mesh position={[0, BLADE_BASE + saberLength / 2, 0]}>
         <capsuleGeometry args={[0.02, saberLength, 16, 32]} />
         <meshStandardMaterial 
           color={color} 
@@ -146,6 +222,7 @@ const Saber: React.FC<SaberProps> = ({ type, positionRef, velocityRef, colors })
       {/* Interactive Light */}
       <pointLight color={color} intensity={2} distance={3} decay={2} position={[0, 0.5, 0]} />
     </group>
+    </>
   );
 };
 
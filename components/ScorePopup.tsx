@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { Html } from '@react-three/drei';
+import { CutScore, CutOutcome, ColorPalette } from '../types';
+import { getJudgment } from '../utils/cutScoring';
+
+interface ScorePopupProps {
+  position: [number, number, number];
+  cut: CutScore;
+  colors: ColorPalette;
+}
+
+// Floating score + judgment shown where the note was cut
+const ScorePopup: React.FC<ScorePopupProps> = ({ position, cut, colors }) => {
+  const judgment = getJudgment(cut);
+  const isWrong = cut.outcome === CutOutcome.WRONG_DIRECTION;
+  const color = isWrong ? '#ef4444' : cut.hand === 'left' ? colors.left : colors.right;
+
+  return (
+    <Html position={position} center zIndexRange={[15, 0]} style={{ pointerEvents: 'none' }}>
+      <div className="score-popup flex flex-col items-center whitespace-nowrap select-none">
+        <span className="font-orbitron text-2xl font-black text-white text-glow-white">
+          {isWrong ? '✕' : cut.total}
+        </span>
+        <span className="font-rajdhani text-xs font-bold tracking-widest" style={{ color }}>
+          {judgment}
+        </span>
+        {!isWrong && (
+          <span className="font-mono text-[9px] text-white/60">
+            {cut.preSwing}·{cut.postSwing}·{cut.accuracy}
+          </span>
+        )}
+      </div>
+    </Html>
+  );
+};
+
+export default ScorePopup;
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ColorPalette, Difficulty, PracticeSettings, ScoreRecord, Song } from '../types';
+import { DIFFICULTY_SETTINGS } from '../constants';
+import { difficultiesOf } from '../utils/songLibrary';
+import { formatBpm } from '../utils/tempoMap';
+import { personalBest } from '../utils/scoreStore';
+import { defaultPractice } from '../utils/practice';
+import PracticeControls from './PracticeControls';
+import { Play, ArrowLeft, Upload, Trash2, Music, GraduationCap } from 'lucide-react';
+
+interface SongSelectProps {
+  songs: Song[];
+  selected: Song;
+  difficulty: Difficulty;
+  scores: ScoreRecord[];
+  colors: ColorPalette;
+  canPlay: boolean;
+  isImporting: boolean;
+  error: string | null;
+  practice: PracticeSettings | null; // Set when the next run is a practice run
+  onSelect: (song: Song) => void;
+  onDifficulty: (difficulty: Difficulty) => void;
+  onImport: (files: File[]) => void;
+  onRemove: (song: Song) => void;
+  onPractice: (practice: PracticeSettings | null) => void;
+  onPlay: () => void;
+  onBack: () => void;
+}
+
+// Seconds of the song the preview loops over
+const PREVIEW_LENGTH = 12;
+const PREVIEW_VOLUME = 0.6;
+
+// Object URL for a stored file, revoked when it changes or unmounts
+const useObjectUrl = (source: string | Blob | null) => {
+  const [url, setUrl] = useState<string | null>(typeof source === 'string' ? source : null);
+  useEffect(() => {
+    if (!(source instanceof Blob)) {
+      setUrl(source);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(source);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [source]);
+  return url;
+};
+
+const Cover: React.FC<{ song: Song; colors: ColorPalette; size: string }> = ({ song, colors, size }) => {
+  const url = useObjectUrl(song.cover);
+  return url
+    ? <img src={url} alt="" className={`${size} object-cover flex-shrink-0`} />
+    : (
+      <div className={`${size} flex-shrink-0 flex items-center justify-center bg-gray-900`} style={{ color: colors.world.text }}>
+        <Music className="w-1/2 h-1/2" />
+      </div>
+    );
+};
+
+// Library browser: pick a song and difficulty while its preview loops
+const SongSelect: React.FC<SongSelectProps> = ({
+  songs, selected, difficulty, scores, colors, canPlay, isImporting, error, practice,
+  onSelect, onDifficulty, onImport, onRemove, onPractice, onPlay, onBack
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewRef = useRef<HTMLAudioElement>(new Audio());
+  const previewUrl = useObjectUrl(selected.audio);
+  // Song length, known once the preview has loaded
+  const [duration, setDuration] = useState(0);
+  const available = difficultiesOf(selected);
+  const best = personalBest(scores, selected.id, difficulty);
+
+  // Loop a slice of the selected song
+  useEffect(() => {
+    const preview = previewRef.current;
+    if (!previewUrl) return;
+    const start = selected.previewStart;
+    const loop = () => {
+      if (preview.currentTime >= start + PREVIEW_LENGTH || preview.ended) {
+        preview.currentTime = start;
+        preview.play().catch(() => {});
+      }
+    };
+    const loaded = () => setDuration(preview.duration || 0);
+    setDuration(0);
+    preview.src = previewUrl;
+    preview.volume = PREVIEW_VOLUME;
+    preview.currentTime = start;
+    // Blocked until the page has had a click; the preview then starts on the next selection
+    preview.play().catch((e) => console.warn("Preview blocked", e));
+    preview.addEventListener('timeupdate', loop);
+    preview.addEventListener('ended', loop);
+    preview.addEventListener('loadedmetadata', loaded);
+    return () => {
+      preview.removeEventListener('loadedmetadata', loaded);
+      preview.removeEventListener('timeupdate', loop);
+      preview.removeEventListener('ended', loop);
+      preview.pause();
+    };
+  }, [previewUrl, selected.previewStart]);
+
+  return (
+    <div className="relative w-full max-w-3xl bg-black/70 backdrop-blur-md border border-white/10 p-6 md:p-8 cyber-clip-path flex flex-col max-h-full">
+      <div className="flex items-center justify-between mb-4">
+        <button onClick={onBack} className="flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip">
+          <ArrowLeft className="w-3 h-3" /> BACK
+        </button>
+        <h2 className="font-orbitron text-2xl font-bold text-white tracking-widest">SELECT SONG</h2>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept="audio/*,image/*,.zip,.dat,.egg"
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            if (files.length > 0) onImport(files);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip disabled:opacity-50"
+        >
+          <Upload className="w-3 h-3" /> {isImporting ? 'IMPORTING...' : 'IMPORT'}
+        </button>
+      </div>
+      <p className="mb-2 text-[10px] font-rajdhani text-gray-500 tracking-wider text-center">
+        IMPORT AN AUDIO FILE, AUDIO WITH .DAT CHARTS, OR A ZIPPED SONG PACKAGE · OR DROP THEM ANYWHERE
+      </p>
+      {error && <p className="mb-2 text-xs font-mono text-red-400 text-center">ERROR: {error}</p>}
+
+      <div className="flex flex-col md:flex-row gap-4 min-h-0">
+        {/* Library */}
+        <div className="flex-1 overflow-y-auto max-h-[40vh] md:max-h-[50vh] flex flex-col gap-1 pr-1">
+          {songs.map((song) => (
+            <div
+              key={song.id}
+              onClick={() => onSelect(song)}
+              className={`flex items-center gap-3 p-2 cursor-pointer border transition-all ${
+                song.id === selected.id ? 'bg-white/10 border-white/30' : 'border-transparent hover:bg-white/5'
+              }`}
+            >
+              <Cover song={song} colors={colors} size="w-10 h-10" />
+              <div className="flex-1 min-w-0 font-rajdhani">
+                <p className="text-sm text-white font-bold truncate">{song.title.toUpperCase()}</p>
+                <p className="text-xs text-gray-400 truncate">{song.artist || 'UNKNOWN ARTIST'} · {formatBpm(song.tempo)}</p>
+              </div>
+              {!song.builtIn && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onRemove(song); }}
+                  className="p-1 text-gray-600 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Selected Song */}
+        <div className="md:w-64 flex flex-col items-center text-center gap-3">
+          <Cover song={selected} colors={colors} size="w-32 h-32" />
+          <div className="font-rajdhani">
+            <p className="font-orbitron text-lg text-white font-bold">{selected.title.toUpperCase()}</p>
+            <p className="text-sm text-gray-400">{selected.artist || 'UNKNOWN ARTIST'}</p>
+            <p className="text-xs text-gray-500">
+              {formatBpm(selected.tempo)} · {selected.chartSource === 'beatmap' ? 'MAPPED' : selected.chartSource === 'analyzed' ? 'AUTO-GENERATED' : 'GENERATED'}
+            </p>
+          </div>
+          <div className="flex justify-center gap-2">
+            {(Object.keys(DIFFICULTY_SETTINGS) as Difficulty[]).map((d) => (
+              <button
+                key={d}
+                onClick={() => onDifficulty(d)}
+                disabled={!available.includes(d)}
+                className={`relative px-3 py-1 font-orbitron font-bold text-xs tracking-wider transition-all cyber-button-clip disabled:opacity-30 ${
+                  difficulty === d
+                    ? 'text-white shadow-[0_0_15px_rgba(37,99,235,0.6)] scale-110 z-10'
+                    : 'bg-gray-900 text-gray-500 hover:bg-gray-800 hover:text-gray-300'
+                }`}
+                style={{ backgroundColor: difficulty === d ? colors.world.gridAccent : undefined }}
+              >
+                {DIFFICULTY_SETTINGS[d].label.toUpperCase()}
+              </button>
+            ))}
+          </div>
+          <p className="font-mono text-xs text-gray-400">
+            BEST: {best ? `${best.score.toLocaleString()} (${(best.accuracy * 100).toFixed(1)}%)` : '—'}
+          </p>
+          <button
+            onClick={() => onPractice(practice ? null : defaultPractice(duration))}
+            disabled={duration === 0}
+            className="flex items-center gap-1 px-3 py-1 text-xs font-orbitron bg-gray-900 text-gray-400 hover:bg-gray-800 hover:text-white transition-all cyber-button-clip disabled:opacity-40"
+          >
+            <GraduationCap className="w-3 h-3" /> PRACTICE: {practice ? 'ON' : 'OFF'}
+          </button>
+          <button
+            onClick={onPlay}
+            disabled={!canPlay || !available.includes(difficulty)}
+            className="inline-flex items-center justify-center py-3 px-10 bg-white text-black font-orbitron font-black text-lg tracking-widest hover:bg-blue-500 hover:text-white transition-all duration-300 cyber-button-clip disabled:opacity-40"
+          >
+            <Play className="w-5 h-5 mr-2 fill-current" /> {practice ? 'PRACTICE' : 'ENGAGE'}
+          </button>
+        </div>
+      </div>
+
+      {practice && duration > 0 && (
+        <div className="mt-4 pt-4 border-t border-white/10">
+          <p className="mb-2 text-[10px] font-rajdhani text-gray-500 tracking-wider text-center">
+            CLICK A SECTION TO PRACTICE IT · SHIFT-CLICK TO EXTEND · NO HEALTH, NOTHING SAVED
+          </p>
+          <PracticeControls
+            practice={practice}
+            duration={duration}
+            notes={selected.charts[difficulty]?.notes ?? []}
+            tempo={selected.tempo}
+            colors={colors}
+            onChange={onPractice}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SongSelect;
@@ -6,11 +6,12 @@
 
 import React, { useEffect, useRef } from 'react';
 import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
-import { ColorPalette } from '../types';
+import { ColorPalette, HandType } from '../types';
 
 interface WebcamPreviewProps {
     videoRef: React.RefObject<HTMLVideoElement | null>;
     resultsRef: React.MutableRefObject<HandLandmarkerResult | null>;
+    assignmentsRef: React.MutableRefObject<HandType[]>; // Hand each detection was assigned to
     isCameraReady: boolean;
     colors: ColorPalette;
 }
@@ -24,7 +25,7 @@ const HAND_CONNECTIONS = [
     [5, 9], [9, 13], [13, 17], [0, 5], [0, 17] // Palm
 ];
 
-const WebcamPreview: React.FC<WebcamPreviewProps> = ({ videoRef, resultsRef, isCameraReady, colors }) => {
+const WebcamPreview: React.FC<WebcamPreviewProps> = ({ videoRef, resultsRef, assignmentsRef, isCameraReady, colors }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
 
     useEffect(() => {
@@ -59,15 +60,10 @@ const WebcamPreview: React.FC<WebcamPreviewProps> = ({ videoRef, resultsRef, isC
                         for (let i = 0; i < resultsRef.current.landmarks.length; i++) {
                             const landmarks = resultsRef.current.landmarks[i];
                             
-                            // Safety checks for handedness
-                            const handInfo = resultsRef.current.handedness[i];
-                            if (!handInfo || !handInfo[0]) continue;
-
-                            const handedness = handInfo[0];
-                            // 'Right' category from MediaPipe usually means it's your right hand.
-                            // We color them to match game sabers: Left = Red, Right = Blue
-                            const isRight = handedness.categoryName === 'Right';
-                            const color = isRight ? colors.right : colors.left;
+                            // Color by the hand the tracker decided on, matching the sabers
+                            const hand = assignmentsRef.current[i];
+                            if (!hand) continue;
+                            const color = hand === 'right' ? colors.right : colors.left;
 
                             ctx.strokeStyle = color;
                             ctx.fillStyle = color;
@@ -108,7 +104,7 @@ const WebcamPreview: React.FC<WebcamPreviewProps> = ({ videoRef, resultsRef, isC
         return () => {
             if (animationFrameId) cancelAnimationFrame(animationFrameId);
         };
-    }, [isCameraReady, videoRef, resultsRef, colors]);
+    }, [isCameraReady, videoRef, resultsRef, assignmentsRef, colors]);
 
     if (!isCameraReady) return null;
 
@@ -4,8 +4,9 @@
 */
 
 
-import { CutDirection, NoteData, Difficulty, Theme, ColorPalette } from "./types";
+import { CutDirection, NoteData, ObstacleData, Difficulty, Modifier, PauseReason, Theme, ColorPalette, HandType, GameSettings, InputMode, MotionFilterType, TempoMap } from "./types";
 import * as THREE from 'three';
+import { beatToSeconds, constantTempo } from './utils/tempoMap';
 
 // Game World Config
 export const TRACK_LENGTH = 50;
@@ -19,6 +20,17 @@ export const DIFFICULTY_SETTINGS = {
   [Difficulty.HARD]: { speed: 16, label: 'Hard' }
 };
 
+// scoreBonus is added to the run's score multiplier (1 + the sum over active modifiers)
+export const MODIFIERS = {
+  [Modifier.NO_FAIL]: { label: 'No Fail', short: 'NF', scoreBonus: -0.5, hint: 'Running out of health does not end the run.' },
+  [Modifier.FASTER_SONG]: { label: 'Faster Song', short: 'FS', scoreBonus: 0.08, hint: 'The song and the notes play 20% faster.' },
+  [Modifier.SLOWER_SONG]: { label: 'Slower Song', short: 'SS', scoreBonus: -0.3, hint: 'The song and the notes play 15% slower.' },
+  [Modifier.DISAPPEARING_NOTES]: { label: 'Disappearing Notes', short: 'DA', scoreBonus: 0.07, hint: 'Notes fade out before they reach you.' },
+  [Modifier.GHOST_NOTES]: { label: 'Ghost Notes', short: 'GN', scoreBonus: 0.11, hint: 'Notes lose their colors. Read the lanes to tell the hands apart.' },
+  [Modifier.ONE_HAND]: { label: 'One Hand', short: '1H', scoreBonus: -0.3, hint: 'Only the right hand\'s notes are played (the left with Mirror).' },
+  [Modifier.MIRROR]: { label: 'Mirror', short: 'MR', scoreBonus: 0, hint: 'Lanes, hands and arrows are flipped left to right.' }
+};
+
 export const THEME_PALETTES: Record<Theme, ColorPalette> = {
   [Theme.NEON]: {
     left: '#ef4444', // Red-ish
@@ -52,10 +64,66 @@ export const THEME_PALETTES: Record<Theme, ColorPalette> = {
   }
 };
 
+// Bombs keep the same look in every theme so they always read as hazards
+export const BOMB_COLORS = {
+  body: '#1c1c1c',
+  glow: '#ff2a00'
+};
+
+// Ghost Notes draw every note in this instead of its hand color
+export const GHOST_NOTE_COLOR = '#9ca3af';
+
+export const INPUT_MODES = {
+  [InputMode.WEBCAM]: { label: 'Camera', hint: 'Hands tracked by the webcam. Lean and duck to dodge walls.' },
+  [InputMode.POINTER]: { label: 'Mouse / Touch', hint: 'Drag with the left or right mouse button, or one finger per saber.' },
+  [InputMode.KEYBOARD]: { label: 'Keyboard', hint: 'WASD moves the left saber, the arrow keys the right one.' },
+  [InputMode.GAMEPAD]: { label: 'Gamepad', hint: 'Left and right sticks swing the matching saber.' }
+};
+
+export const PAUSE_REASONS = {
+  [PauseReason.TAB_HIDDEN]: { label: 'Tab Hidden', hint: 'The game was in a background tab.' },
+  [PauseReason.FOCUS_LOST]: { label: 'Focus Lost', hint: 'Another window took the focus.' },
+  [PauseReason.CAMERA_ENDED]: { label: 'Camera Lost', hint: 'The camera stopped. Check its connection and that no other app took it.' },
+  [PauseReason.TRACKING_LOST]: { label: 'Tracking Lost', hint: 'No hands seen for a few seconds. Step back into the frame.' }
+};
+
+// Resuming counts down this many seconds after rewinding the song this far (real time)
+export const RESUME_COUNTDOWN = 3;
+export const RESUME_REWIND = 2;
+
+export const MOTION_FILTERS = {
+  [MotionFilterType.NONE]: { label: 'Raw', hint: 'No smoothing. Lowest latency, most jitter.' },
+  [MotionFilterType.ONE_EURO]: { label: 'One Euro', hint: 'Steady at rest, quick in fast swings.' },
+  [MotionFilterType.KALMAN]: { label: 'Kalman', hint: 'Tracks position and velocity together. Smoothest swings.' }
+};
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  audioOffsetMs: 0,
+  inputOffsetMs: 0,
+  inputMode: InputMode.WEBCAM,
+  swapHands: false,
+  motionFilter: {
+    type: MotionFilterType.ONE_EURO,
+    minCutoff: 1.5,
+    beta: 1.0,
+    processNoise: 40,
+    measurementNoise: 0.03,
+    predictionMs: 30
+  }
+};
+
 export const LANE_WIDTH = 0.8;
 export const LAYER_HEIGHT = 0.8;
 export const NOTE_SIZE = 0.5;
 
+// Obstacles
+export const WALL_COLOR = '#ff3355';
+export const WALL_DAMAGE_PER_SECOND = 30; // Health drained while the head is inside a wall
+export const HEAD_RADIUS = 0.15;
+
+// Head tracking: neutral standing head height and how far image motion moves it in the world
+export const HEAD_HEIGHT = 1.7;
+
 // Positions for the 4 lanes (centered around 0)
 export const LANE_X_POSITIONS = [-1.5 * LANE_WIDTH, -0.5 * LANE_WIDTH, 0.5 * LANE_WIDTH, 1.5 * LANE_WIDTH];
 export const LAYER_Y_POSITIONS = [0.8, 1.6, 2.4]; // Low, Mid, High
@@ -64,12 +132,31 @@ export const LAYER_Y_POSITIONS = [0.8, 1.6, 2.4]; // Low, Mid, High
 // Using a solid rhythmic track that is free to use.
 export const SONG_URL = 'https://commondatastorage.googleapis.com/codeskulptor-demos/riceracer_assets/music/race2.ogg';
 export const SONG_BPM = 140; 
-const BEAT_TIME = 60 / SONG_BPM;
 
-// Generate a chart based on difficulty
-export const generateChart = (difficulty: Difficulty): NoteData[] => {
+// Alternates each hand between forehand (downward) and backhand (upward) swings,
+// so consecutive notes for one hand flow into each other.
+export const createSwingPattern = () => {
+  const forehand: Record<HandType, boolean> = { left: true, right: true };
+
+  return (hand: HandType, lineIndex: number, useDiagonals = false): CutDirection => {
+    const down = forehand[hand];
+    forehand[hand] = !down;
+
+    if (useDiagonals && (lineIndex === 0 || lineIndex === 3)) {
+      // Outer lanes swing outward on the forehand and back in on the backhand
+      const outerLeft = lineIndex === 0;
+      if (down) return outerLeft ? CutDirection.DOWN_LEFT : CutDirection.DOWN_RIGHT;
+      return outerLeft ? CutDirection.UP_RIGHT : CutDirection.UP_LEFT;
+    }
+    return down ? CutDirection.DOWN : CutDirection.UP;
+  };
+};
+
+// Generate a chart based on difficulty, on the beats of `tempo`
+export const generateChart = (difficulty: Difficulty, tempo: TempoMap = constantTempo(SONG_BPM)): NoteData[] => {
   const notes: NoteData[] = [];
   let idCount = 0;
+  const swing = createSwingPattern();
   
   // Adjust density based on difficulty
   // Easy: Every 4 beats (approx 1.7s)
@@ -81,7 +168,7 @@ export const generateChart = (difficulty: Difficulty): NoteData[] => {
   if (difficulty === Difficulty.HARD) step = 1;
 
   for (let i = 4; i < 200; i += step) { 
-    const time = i * BEAT_TIME;
+    const time = beatToSeconds(tempo, i);
     
     // Pattern generation
     if (difficulty === Difficulty.EASY) {
@@ -96,22 +183,23 @@ export const generateChart = (difficulty: Difficulty): NoteData[] => {
          cutDirection: CutDirection.ANY
        });
     } else if (difficulty === Difficulty.MEDIUM) {
-       // Alternating with some variety
+       // Alternating with some variety, up/down swings per hand
        const isLeft = (i / 2) % 2 === 0;
        // Occasional double hit every 16 beats
        if (i % 16 === 0) {
           notes.push(
-            { id: `note-${idCount++}`, time, lineIndex: 1, lineLayer: 0, type: 'left', cutDirection: CutDirection.ANY },
-            { id: `note-${idCount++}`, time, lineIndex: 2, lineLayer: 0, type: 'right', cutDirection: CutDirection.ANY }
+            { id: `note-${idCount++}`, time, lineIndex: 1, lineLayer: 0, type: 'left', cutDirection: swing('left', 1) },
+            { id: `note-${idCount++}`, time, lineIndex: 2, lineLayer: 0, type: 'right', cutDirection: swing('right', 2) }
           );
        } else {
+          const lineIndex = isLeft ? 1 : 2;
           notes.push({
             id: `note-${idCount++}`,
             time,
-            lineIndex: isLeft ? 1 : 2,
+            lineIndex,
             lineLayer: 0, // Keep it simple on layer 0 for medium
             type: isLeft ? 'left' : 'right',
-            cutDirection: CutDirection.ANY
+            cutDirection: swing(isLeft ? 'left' : 'right', lineIndex)
           });
        }
     } else {
@@ -122,32 +210,40 @@ export const generateChart = (difficulty: Difficulty): NoteData[] => {
       if (pattern === 0) {
         // Fast Alternating
         const isLeft = i % 2 === 0;
+        const lineIndex = isLeft ? 0 : 3; // Wide lanes
         notes.push({
           id: `note-${idCount++}`,
           time,
-          lineIndex: isLeft ? 0 : 3, // Wide lanes
+          lineIndex,
           lineLayer: Math.random() > 0.5 ? 1 : 0,
           type: isLeft ? 'left' : 'right',
-          cutDirection: CutDirection.ANY
+          cutDirection: swing(isLeft ? 'left' : 'right', lineIndex, true)
         });
       } else if (pattern === 1) {
         // Doubles
          if (i % 2 === 0) {
            notes.push(
-             { id: `note-${idCount++}`, time, lineIndex: 1, lineLayer: 0, type: 'left', cutDirection: CutDirection.ANY },
-             { id: `note-${idCount++}`, time, lineIndex: 2, lineLayer: 0, type: 'right', cutDirection: CutDirection.ANY }
+             { id: `note-${idCount++}`, time, lineIndex: 1, lineLayer: 0, type: 'left', cutDirection: swing('left', 1) },
+             { id: `note-${idCount++}`, time, lineIndex: 2, lineLayer: 0, type: 'right', cutDirection: swing('right', 2) }
+           );
+         } else {
+           // Bombs on the outer lanes keep the swings tight
+           notes.push(
+             { id: `note-${idCount++}`, time, lineIndex: 0, lineLayer: 1, type: 'bomb', cutDirection: CutDirection.ANY },
+             { id: `note-${idCount++}`, time, lineIndex: 3, lineLayer: 1, type: 'bomb', cutDirection: CutDirection.ANY }
            );
          }
       } else {
         // Streams/stairs
         const offset = i % 4;
+        const hand = offset < 2 ? 'left' : 'right';
         notes.push({
           id: `note-${idCount++}`,
           time,
           lineIndex: offset,
           lineLayer: 0,
-          type: offset < 2 ? 'left' : 'right',
-          cutDirection: CutDirection.ANY
+          type: hand,
+          cutDirection: swing(hand, offset, true)
         });
       }
     }
@@ -156,11 +252,93 @@ export const generateChart = (difficulty: Difficulty): NoteData[] => {
   return notes.sort((a, b) => a.time - b.time);
 };
 
+// Generate walls to accompany generateChart's patterns.
+// Crouch walls sit over layer 0 notes so they never block a cut.
+export const generateObstacles = (difficulty: Difficulty, tempo: TempoMap = constantTempo(SONG_BPM)): ObstacleData[] => {
+  if (difficulty === Difficulty.EASY) return [];
+  const wall = (beat: number, beats: number) => {
+    const time = beatToSeconds(tempo, beat);
+    return { time, duration: beatToSeconds(tempo, beat + beats) - time };
+  };
+
+  const obstacles: ObstacleData[] = [];
+  let idCount = 0;
+
+  if (difficulty === Difficulty.MEDIUM) {
+    // Short crouch wall every 32 beats
+    for (let beat = 24; beat < 200; beat += 32) {
+      obstacles.push({ id: `wall-${idCount++}`, ...wall(beat, 2), lineIndex: 0, width: 4, lineLayer: 2, height: 3 });
+    }
+  } else {
+    // HARD: crouch through every doubles section, plus side walls during streams
+    for (let section = 0; section * 16 < 200; section++) {
+      const pattern = section % 3;
+      const start = section * 16;
+      if (start < 4) continue;
+      if (pattern === 1) {
+        obstacles.push({ id: `wall-${idCount++}`, ...wall(start + 4, 4), lineIndex: 0, width: 4, lineLayer: 2, height: 3 });
+      } else if (pattern === 2) {
+        // Lean away from alternating sides (streams use layer 0, walls start above it)
+        const left = section % 2 === 0;
+        obstacles.push({ id: `wall-${idCount++}`, ...wall(start + 8, 4), lineIndex: left ? 0 : 2, width: 2, lineLayer: 1, height: 4 });
+      }
+    }
+  }
+
+  return obstacles;
+};
+
+// World-space extents of a wall (x/y only; z depends on time)
+export const getObstacleBounds = (o: ObstacleData) => {
+  const minX = LANE_X_POSITIONS[0] - LANE_WIDTH / 2 + o.lineIndex * LANE_WIDTH;
+  const minY = o.lineLayer * LAYER_HEIGHT;
+  return {
+    minX,
+    maxX: minX + o.width * LANE_WIDTH,
+    minY,
+    maxY: minY + o.height * LAYER_HEIGHT
+  };
+};
+
 // Vectors for direction checking
 export const DIRECTION_VECTORS: Record<CutDirection, THREE.Vector3> = {
   [CutDirection.UP]: new THREE.Vector3(0, 1, 0),
   [CutDirection.DOWN]: new THREE.Vector3(0, -1, 0),
   [CutDirection.LEFT]: new THREE.Vector3(-1, 0, 0),
   [CutDirection.RIGHT]: new THREE.Vector3(1, 0, 0),
+  [CutDirection.UP_LEFT]: new THREE.Vector3(-1, 1, 0).normalize(),
+  [CutDirection.UP_RIGHT]: new THREE.Vector3(1, 1, 0).normalize(),
+  [CutDirection.DOWN_LEFT]: new THREE.Vector3(-1, -1, 0).normalize(),
+  [CutDirection.DOWN_RIGHT]: new THREE.Vector3(1, -1, 0).normalize(),
   [CutDirection.ANY]: new THREE.Vector3(0, 0, 0) // Magnitude check only
-};
\ No newline at end of file
+};
+
+// Z rotation of the note arrow (arrow geometry points up at 0)
+export const DIRECTION_ANGLES: Record<CutDirection, number> = {
+  [CutDirection.UP]: 0,
+  [CutDirection.DOWN]: Math.PI,
+  [CutDirection.LEFT]: Math.PI / 2,
+  [CutDirection.RIGHT]: -Math.PI / 2,
+  [CutDirection.UP_LEFT]: Math.PI / 4,
+  [CutDirection.UP_RIGHT]: -Math.PI / 4,
+  [CutDirection.DOWN_LEFT]: (3 * Math.PI) / 4,
+  [CutDirection.DOWN_RIGHT]: (-3 * Math.PI) / 4,
+  [CutDirection.ANY]: 0
+};
+
+// Bomb penalties
+export const BOMB_HEALTH_PENALTY = 20;
+// Smaller than the note hit radius (0.8) so near misses don't count
+export const BOMB_HIT_RADIUS = 0.5;
+
+// Saber blade. When the input knows the hand's orientation, the whole blade
+// (from the hand along its direction) collides instead of just the hand point.
+// Collision uses everything a blade swept through since the previous frame.
+export const SABER_LENGTH = 1.0;
+export const BLADE_HIT_PADDING = 0.15;     // Grows each note's box, for forgiveness
+export const BLADE_BOMB_HIT_RADIUS = 0.3;  // Half-size of a bomb's box
+
+// Minimum hand speed (world units/s) for a cut to count as a full swing
+export const MIN_CUT_SPEED = 1.5;
+// Minimum alignment (dot product) between swing and arrow direction
+export const MIN_DIRECTION_DOT = 0.3;
\ No newline at end of file
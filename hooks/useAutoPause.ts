@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { HandPositions, PauseReason } from '../types';
+
+// Seconds without either hand before a camera run pauses itself
+const HANDS_LOST_SECONDS = 3;
+const POLL_INTERVAL_MS = 250;
+
+// Pauses a running song when the player cannot be playing it: the tab is hidden or loses
+// focus, or, for live camera input, the camera stream ends or no hand is tracked for a while.
+export const useAutoPause = (
+  running: boolean,
+  watchCamera: boolean,
+  handPositionsRef: { current: HandPositions },
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  onPause: (reason: PauseReason) => void
+) => {
+  // Latest callback, so listeners are only re-attached when the run starts or stops
+  const onPauseRef = useRef(onPause);
+  onPauseRef.current = onPause;
+
+  useEffect(() => {
+    if (!running) return;
+    const pause = (reason: PauseReason) => onPauseRef.current(reason);
+
+    const onVisibilityChange = () => {
+      if (document.hidden) pause(PauseReason.TAB_HIDDEN);
+    };
+    const onBlur = () => pause(PauseReason.FOCUS_LOST);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('blur', onBlur);
+
+    const stream = videoRef.current?.srcObject;
+    const tracks = watchCamera && stream instanceof MediaStream ? stream.getVideoTracks() : [];
+    const onTrackEnded = () => pause(PauseReason.CAMERA_ENDED);
+    tracks.forEach(t => t.addEventListener('ended', onTrackEnded));
+
+    let lostSince: number | null = null;
+    const poll = window.setInterval(() => {
+      if (!watchCamera) return;
+      const { left, right } = handPositionsRef.current;
+      if (left || right) {
+        lostSince = null;
+        return;
+      }
+      lostSince ??= performance.now();
+      if (performance.now() - lostSince >= HANDS_LOST_SECONDS * 1000) pause(PauseReason.TRACKING_LOST);
+    }, POLL_INTERVAL_MS);
+
+    // Whatever already happened while the run was starting or resuming
+    if (document.hidden) pause(PauseReason.TAB_HIDDEN);
+    else if (tracks.some(t => t.readyState === 'ended')) pause(PauseReason.CAMERA_ENDED);
+
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('blur', onBlur);
+      tracks.forEach(t => t.removeEventListener('ended', onTrackEnded));
+      window.clearInterval(poll);
+    };
+  }, [running, watchCamera]);
+};
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useState } from 'react';
+import { NoteData } from '../types';
+
+const MAX_HISTORY = 200;
+
+interface HistoryState {
+  past: NoteData[][];
+  present: NoteData[];
+  future: NoteData[][];
+}
+
+// Undo/redo stack for the chart editor. Every edit commits a full snapshot;
+// charts are small enough that this is simpler than tracking diffs.
+export const useChartHistory = (initial: NoteData[]) => {
+  const [state, setState] = useState<HistoryState>({ past: [], present: initial, future: [] });
+
+  const commit = useCallback((next: NoteData[]) => {
+    setState(s => ({
+      past: [...s.past, s.present].slice(-MAX_HISTORY),
+      present: next,
+      future: []
+    }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(s => {
+      if (s.past.length === 0) return s;
+      return {
+        past: s.past.slice(0, -1),
+        present: s.past[s.past.length - 1],
+        future: [s.present, ...s.future]
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(s => {
+      if (s.future.length === 0) return s;
+      return {
+        past: [...s.past, s.present],
+        present: s.future[0],
+        future: s.future.slice(1)
+      };
+    });
+  }, []);
+
+  return {
+    notes: state.present,
+    commit,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+};
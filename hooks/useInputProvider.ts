@@ -0,0 +1,287 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { GameSettings, HandPositions, HandType, InputMode, InputProvider, MotionFilterSettings } from '../types';
+import { createHandPositions } from '../utils/handInput';
+import { createHandFilter } from '../utils/motionFilter';
+import { useMediaPipe } from './useMediaPipe';
+
+// Input sources that stand in for the webcam. Each fills the same HandPositions shape
+// the tracker does; none of them track the head, so walls cannot be dodged with them.
+
+// Matches the GameScene camera, so a pointer sits right on top of its saber
+const CAMERA_Y = 1.8;
+const CAMERA_DISTANCE = 4;
+const CAMERA_FOV = 60;
+
+// Hand reach in world units, shared by keyboard and gamepad
+const REACH_X = 2.5;
+const MIN_Y = 0.2;
+const MAX_Y = 3.0;
+const REST_POSITIONS: Record<HandType, THREE.Vector3> = {
+  left: new THREE.Vector3(-0.6, 1.6, 0),
+  right: new THREE.Vector3(0.6, 1.6, 0)
+};
+
+const KEYBOARD_SPEED = 5; // World units per second while a key is held
+const KEY_DIRECTIONS: Record<string, { hand: HandType; x: number; y: number }> = {
+  w: { hand: 'left', x: 0, y: 1 },
+  s: { hand: 'left', x: 0, y: -1 },
+  a: { hand: 'left', x: -1, y: 0 },
+  d: { hand: 'left', x: 1, y: 0 },
+  ArrowUp: { hand: 'right', x: 0, y: 1 },
+  ArrowDown: { hand: 'right', x: 0, y: -1 },
+  ArrowLeft: { hand: 'right', x: -1, y: 0 },
+  ArrowRight: { hand: 'right', x: 1, y: 0 }
+};
+
+const STICK_DEADZONE = 0.15;
+const STICK_RANGE = { x: 1.9, y: 1.3 };
+
+const clampToReach = (v: THREE.Vector3) => {
+  v.x = THREE.MathUtils.clamp(v.x, -REACH_X, REACH_X);
+  v.y = THREE.MathUtils.clamp(v.y, MIN_Y, MAX_Y);
+  return v;
+};
+
+// Screen position (pixels) to the point under it on the player's plane
+const screenToPlayerPlane = (clientX: number, clientY: number) => {
+  const halfHeight = CAMERA_DISTANCE * Math.tan(THREE.MathUtils.degToRad(CAMERA_FOV / 2));
+  const halfWidth = halfHeight * (window.innerWidth / window.innerHeight);
+  return clampToReach(new THREE.Vector3(
+    (clientX / window.innerWidth - 0.5) * 2 * halfWidth,
+    CAMERA_Y + (0.5 - clientY / window.innerHeight) * 2 * halfHeight,
+    0
+  ));
+};
+
+// Raw hand positions for one sample (null when a hand is not present)
+type HandSample = Record<HandType, THREE.Vector3 | null>;
+
+// Runs `sample` every animation frame while enabled and exposes the hands it produces,
+// after motion filtering
+const useHandSampler = (enabled: boolean, motionFilter: MotionFilterSettings, sample: (deltaTime: number) => HandSample) => {
+  const handPositionsRef = useRef<HandPositions>(createHandPositions());
+  const headPositionRef = useRef<THREE.Vector3 | null>(null);
+  const sampleRef = useRef(sample);
+  sampleRef.current = sample;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const filter = createHandFilter(motionFilter);
+    let frameId: number;
+    let last = performance.now();
+
+    const loop = () => {
+      const now = performance.now();
+      const raw = sampleRef.current((now - last) / 1000);
+      filter.apply(handPositionsRef.current, 'left', raw.left, now / 1000);
+      filter.apply(handPositionsRef.current, 'right', raw.right, now / 1000);
+      last = now;
+      frameId = requestAnimationFrame(loop);
+    };
+    loop();
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      handPositionsRef.current = createHandPositions();
+    };
+  }, [enabled, motionFilter]);
+
+  return { handPositionsRef, headPositionRef };
+};
+
+// Mouse: left button drags the left saber, right button the right one.
+// Touch: each finger drives the saber on the side of the screen it landed on.
+export const usePointerInput = (enabled: boolean, motionFilter: MotionFilterSettings): InputProvider => {
+  const pointersRef = useRef(new Map<number, { hand: HandType; x: number; y: number }>());
+
+  useEffect(() => {
+    if (!enabled) return;
+    const pointers = pointersRef.current;
+    const isHeld = (hand: HandType) => [...pointers.values()].some(p => p.hand === hand);
+
+    const onDown = (e: PointerEvent) => {
+      let hand: HandType;
+      if (e.pointerType === 'mouse') {
+        hand = e.button === 2 ? 'right' : 'left';
+      } else {
+        hand = e.clientX < window.innerWidth / 2 ? 'left' : 'right';
+        if (isHeld(hand)) hand = hand === 'left' ? 'right' : 'left';
+      }
+      if (isHeld(hand)) return;
+      pointers.set(e.pointerId, { hand, x: e.clientX, y: e.clientY });
+    };
+    const onMove = (e: PointerEvent) => {
+      const p = pointers.get(e.pointerId);
+      if (p) {
+        p.x = e.clientX;
+        p.y = e.clientY;
+      }
+    };
+    const onUp = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
+    };
+    // The right button drives a saber, not the browser menu
+    const onContextMenu = (e: MouseEvent) => e.preventDefault();
+
+    window.addEventListener('pointerdown', onDown);
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    window.addEventListener('pointercancel', onUp);
+    window.addEventListener('contextmenu', onContextMenu);
+    return () => {
+      window.removeEventListener('pointerdown', onDown);
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      window.removeEventListener('pointercancel', onUp);
+      window.removeEventListener('contextmenu', onContextMenu);
+      pointers.clear();
+    };
+  }, [enabled]);
+
+  const refs = useHandSampler(enabled, motionFilter, () => {
+    const at = (hand: HandType) => {
+      const p = [...pointersRef.current.values()].find(q => q.hand === hand);
+      return p ? screenToPlayerPlane(p.x, p.y) : null;
+    };
+    return { left: at('left'), right: at('right') };
+  });
+
+  return { ...refs, isReady: enabled, error: null, calibrate: () => {} };
+};
+
+// WASD moves the left saber, the arrow keys the right one. Holding two keys moves diagonally.
+export const useKeyboardInput = (enabled: boolean, motionFilter: MotionFilterSettings): InputProvider => {
+  const heldRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!enabled) return;
+    const held = heldRef.current;
+    const keyOf = (e: KeyboardEvent) => e.key.length === 1 ? e.key.toLowerCase() : e.key;
+
+    const onDown = (e: KeyboardEvent) => {
+      const key = keyOf(e);
+      if (!KEY_DIRECTIONS[key]) return;
+      e.preventDefault();
+      held.add(key);
+    };
+    const onUp = (e: KeyboardEvent) => {
+      held.delete(keyOf(e));
+    };
+    // Keys released while the window is unfocused never send keyup
+    const onBlur = () => held.clear();
+
+    window.addEventListener('keydown', onDown);
+    window.addEventListener('keyup', onUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onDown);
+      window.removeEventListener('keyup', onUp);
+      window.removeEventListener('blur', onBlur);
+      held.clear();
+    };
+  }, [enabled]);
+
+  const move = useRef(new THREE.Vector3());
+  // Unfiltered positions the keys move; the filtered (and predicted) ones must not feed back
+  const positionsRef = useRef<HandSample>({ left: null, right: null });
+  useEffect(() => {
+    if (enabled) positionsRef.current = { left: null, right: null };
+  }, [enabled]);
+
+  const refs = useHandSampler(enabled, motionFilter, dt => {
+    const positions = positionsRef.current;
+    (['left', 'right'] as const).forEach(hand => {
+      move.current.set(0, 0, 0);
+      heldRef.current.forEach(key => {
+        const dir = KEY_DIRECTIONS[key];
+        if (dir.hand === hand) {
+          move.current.x += dir.x;
+          move.current.y += dir.y;
+        }
+      });
+      const next = (positions[hand] ?? REST_POSITIONS[hand]).clone();
+      if (move.current.lengthSq() > 0) {
+        next.addScaledVector(move.current.normalize(), KEYBOARD_SPEED * dt);
+      }
+      positions[hand] = clampToReach(next);
+    });
+    return { left: positions.left, right: positions.right };
+  });
+
+  return { ...refs, isReady: enabled, error: null, calibrate: () => {} };
+};
+
+// Left stick drives the left saber, right stick the right one, around each hand's rest position
+export const useGamepadInput = (enabled: boolean, motionFilter: MotionFilterSettings): InputProvider => {
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const update = () => setIsConnected(navigator.getGamepads().some(Boolean));
+    update();
+    window.addEventListener('gamepadconnected', update);
+    window.addEventListener('gamepaddisconnected', update);
+    return () => {
+      window.removeEventListener('gamepadconnected', update);
+      window.removeEventListener('gamepaddisconnected', update);
+    };
+  }, [enabled]);
+
+  const refs = useHandSampler(enabled, motionFilter, () => {
+    const pad = navigator.getGamepads().find(Boolean);
+    const stick = (hand: HandType, i: number) => {
+      if (!pad) return null;
+      const deadzone = (v: number) => Math.abs(v) < STICK_DEADZONE ? 0 : v;
+      const x = deadzone(pad.axes[i * 2] ?? 0);
+      const y = deadzone(pad.axes[i * 2 + 1] ?? 0);
+      const rest = REST_POSITIONS[hand];
+      // Stick y is positive downwards
+      return clampToReach(new THREE.Vector3(rest.x + x * STICK_RANGE.x, rest.y - y * STICK_RANGE.y, 0));
+    };
+    return { left: stick('left', 0), right: stick('right', 1) };
+  });
+
+  return {
+    ...refs,
+    isReady: enabled && isConnected,
+    error: enabled && !isConnected ? 'No gamepad detected. Connect one and press a button.' : null,
+    calibrate: () => {}
+  };
+};
+
+// The provider the player picked, plus webcam details for the preview.
+// Every provider hook is called (hooks cannot be conditional); only the selected one runs.
+export const useInputProvider = (settings: Pick<GameSettings, 'inputMode' | 'swapHands' | 'motionFilter'>, videoRef: React.RefObject<HTMLVideoElement | null>) => {
+  const { inputMode: mode, swapHands, motionFilter } = settings;
+  const webcam = useMediaPipe(videoRef, mode === InputMode.WEBCAM, { swapHands, motionFilter });
+  const pointer = usePointerInput(mode === InputMode.POINTER, motionFilter);
+  const keyboard = useKeyboardInput(mode === InputMode.KEYBOARD, motionFilter);
+  const gamepad = useGamepadInput(mode === InputMode.GAMEPAD, motionFilter);
+
+  const providers: Record<InputMode, InputProvider> = {
+    [InputMode.WEBCAM]: {
+      handPositionsRef: webcam.handPositionsRef,
+      headPositionRef: webcam.headPositionRef,
+      isReady: webcam.isCameraReady,
+      error: webcam.error,
+      calibrate: webcam.calibrate
+    },
+    [InputMode.POINTER]: pointer,
+    [InputMode.KEYBOARD]: keyboard,
+    [InputMode.GAMEPAD]: gamepad
+  };
+
+  return {
+    ...providers[mode],
+    lastResultsRef: webcam.lastResultsRef,
+    handAssignmentsRef: webcam.handAssignmentsRef,
+    isCameraReady: webcam.isCameraReady,
+    trackingStage: webcam.loadingStage
+  };
+};
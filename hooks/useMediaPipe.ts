@@ -3,77 +3,230 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useEffect, useRef, useState } from 'react';
-import { HandLandmarker, FilesetResolver, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { HandLandmarker, PoseLandmarker, FilesetResolver, HandLandmarkerResult, PoseLandmarkerResult, NormalizedLandmark, Landmark } from '@mediapipe/tasks-vision';
 import * as THREE from 'three';
+import { HEAD_HEIGHT, DEFAULT_SETTINGS } from '../constants';
+import { HandPositions, HandType, MotionFilterSettings } from '../types';
+import { mapHandToWorld, createHandPositions, GAME_X_RANGE, GAME_Y_RANGE } from '../utils/handInput';
+import { createHandFilter } from '../utils/motionFilter';
+import { createHandIdentityTracker, otherHand, HandDetection } from '../utils/handIdentity';
 
-// Mapping 2D normalized coordinates to 3D game world.
-const mapHandToWorld = (x: number, y: number): THREE.Vector3 => {
-  const GAME_X_RANGE = 5; 
-  const GAME_Y_RANGE = 3.5;
-  const Y_OFFSET = 0.8;
+// Tracking assets. Self-hosted copies come first (see vite.config.ts and scripts/setup-mediapipe.mjs);
+// the public CDNs are a fallback for online play without them.
+const WASM_PATHS = [process.env.MEDIAPIPE_WASM_PATH!, 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm'];
+const WASM_PROBE_FILE = 'vision_wasm_internal.wasm';
+const HAND_MODEL = {
+  file: 'hand_landmarker.task',
+  cdn: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
+};
+const POSE_MODEL = {
+  file: 'pose_landmarker_lite.task',
+  cdn: 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task'
+};
+const modelUrls = (model: { file: string; cdn: string }) => [`${process.env.MEDIAPIPE_MODEL_PATH}/${model.file}`, model.cdn];
+
+export enum TrackingStage {
+  RUNTIME = 'RUNTIME',
+  HAND_MODEL = 'HAND_MODEL',
+  POSE_MODEL = 'POSE_MODEL',
+  CAMERA = 'CAMERA',
+  READY = 'READY'
+}
+
+export const STAGE_LABELS: Record<TrackingStage, string> = {
+  [TrackingStage.RUNTIME]: 'Loading tracking runtime',
+  [TrackingStage.HAND_MODEL]: 'Loading hand model',
+  [TrackingStage.POSE_MODEL]: 'Loading pose model',
+  [TrackingStage.CAMERA]: 'Starting camera',
+  [TrackingStage.READY]: 'Tracking'
+};
+
+// First location that actually serves a file. The dev server answers missing files
+// with index.html, so an HTML response does not count. The last location is used
+// unprobed, so a real load error names the actual problem.
+const pickLocation = async (locations: string[], suffix = '') => {
+  for (const location of locations.slice(0, -1)) {
+    try {
+      const res = await fetch(location + suffix, { method: 'HEAD' });
+      if (res.ok && !res.headers.get('content-type')?.includes('text/html')) return location;
+    } catch {
+      // Unreachable (offline or blocked); try the next one
+    }
+  }
+  return locations[locations.length - 1];
+};
+
+// Landmarks that define the blade direction: it follows the hand's own axis,
+// from the wrist through the knuckle of the middle finger.
+const WRIST_LANDMARK = 0;
+const MIDDLE_MCP_LANDMARK = 9;
+const INDEX_TIP_LANDMARK = 8;
+// Landmark z shares the scale of x, so it is mapped with the horizontal range
+const DEPTH_SCALE = GAME_X_RANGE;
+const DIRECTION_LERP = 0.5;
 
-  // MediaPipe often returns mirrored X if facingMode is 'user'.
-  // We might need to invert X depending on the final behavior.
-  // For now, assuming standard mirroring where 0 is left-screen (user's right hand physically if mirrored).
-  const worldX = (0.5 - x) * GAME_X_RANGE; 
-  const worldY = (1.0 - y) * GAME_Y_RANGE - (GAME_Y_RANGE / 2) + Y_OFFSET;
+const handDirection = (wrist: NormalizedLandmark, knuckle: NormalizedLandmark): THREE.Vector3 | null => {
+  // Same axes as mapHandToWorld: image x is mirrored and y points down.
+  // Smaller z is closer to the camera, which the player faces (-Z in the world).
+  const dir = new THREE.Vector3(
+    -(knuckle.x - wrist.x) * GAME_X_RANGE,
+    -(knuckle.y - wrist.y) * GAME_Y_RANGE,
+    (knuckle.z - wrist.z) * DEPTH_SCALE
+  );
+  return dir.lengthSq() > 1e-8 ? dir.normalize() : null;
+};
+
+// Hand depth. A palm looks bigger the closer it is to the camera (pinhole model), and
+// worldLandmarks give its real size in metres, so its apparent size yields a distance.
+// The player's calibrated neutral distance is Z = 0 in the world.
+const CAMERA_FOCAL_LENGTH = 1.2;    // In image heights, for a typical ~45° vertical webcam FOV
+const DEFAULT_PALM_LENGTH = 0.085;  // Wrist to middle knuckle (m) when worldLandmarks are missing
+const DEFAULT_NEUTRAL_DISTANCE = 0.6;
+const DEPTH_GAIN = 2;               // World units per metre of reach towards the camera
+const DEPTH_LERP = 0.3;             // Size-based distance is noisy; smooth it harder than x/y
+
+// Distance (m) from the camera to the tracked fingertip
+const estimateDistance = (landmarks: NormalizedLandmark[], world: Landmark[] | undefined, aspect: number): number | null => {
+  const wrist = landmarks[WRIST_LANDMARK];
+  const knuckle = landmarks[MIDDLE_MCP_LANDMARK];
+  // Apparent palm length in image heights. Landmark z shares the x scale, so including it
+  // undoes most of the foreshortening when the palm tilts towards or away from the camera.
+  const apparent = Math.hypot(
+    (knuckle.x - wrist.x) * aspect,
+    knuckle.y - wrist.y,
+    (knuckle.z - wrist.z) * aspect
+  );
+  if (apparent < 1e-4) return null;
+
+  const worldWrist = world?.[WRIST_LANDMARK];
+  const worldKnuckle = world?.[MIDDLE_MCP_LANDMARK];
+  const palmLength = worldWrist && worldKnuckle
+    ? Math.hypot(worldKnuckle.x - worldWrist.x, worldKnuckle.y - worldWrist.y, worldKnuckle.z - worldWrist.z)
+    : DEFAULT_PALM_LENGTH;
+  const wristDistance = CAMERA_FOCAL_LENGTH * palmLength / apparent;
+
+  // The fingertip's z is relative to the wrist; convert it with the palm's metres per unit
+  const tipOffset = (landmarks[INDEX_TIP_LANDMARK].z - wrist.z) * aspect * (palmLength / apparent);
+  return wristDistance + tipOffset;
+};
+
+// MediaPipe classifies handedness as if the frame were a mirrored selfie image. Frames go
+// to the landmarker straight from the camera (only the preview is mirrored), so each label
+// names the player's other hand. `swap` covers cameras that already mirror their output.
+const labelToHand = (label: string | undefined, swap: boolean): HandType => {
+  const hand: HandType = label === 'Right' ? 'left' : 'right';
+  return swap ? otherHand(hand) : hand;
+};
 
-  const worldZ = -Math.max(0, worldY * 0.2);
+// Head position for wall dodging. X uses the same mapping as the hands; Y is relative
+// to a calibrated neutral (standing) pose, since the camera cannot know the player's height.
+const HEAD_X_RANGE = 5;
+const HEAD_Y_SCALE = 4;
+const DEFAULT_HEAD_NEUTRAL_Y = 0.3;
+const NOSE_LANDMARK = 0;
 
-  return new THREE.Vector3(worldX, Math.max(0.1, worldY), worldZ);
+const mapHeadToWorld = (x: number, y: number, neutralY: number): THREE.Vector3 => {
+  const worldX = (0.5 - x) * HEAD_X_RANGE;
+  const worldY = HEAD_HEIGHT - (y - neutralY) * HEAD_Y_SCALE;
+  return new THREE.Vector3(worldX, Math.max(0.2, worldY), 0);
 };
 
-export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>) => {
+interface MediaPipeOptions {
+  swapHands?: boolean;
+  motionFilter?: MotionFilterSettings;
+}
+
+// Webcam hand (and optional head) tracking. Nothing is loaded until `enabled`.
+export const useMediaPipe = (
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  enabled = true,
+  { swapHands = false, motionFilter = DEFAULT_SETTINGS.motionFilter }: MediaPipeOptions = {}
+) => {
   const [isCameraReady, setIsCameraReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [loadingStage, setLoadingStage] = useState(TrackingStage.RUNTIME);
+
+  const handPositionsRef = useRef<HandPositions>(createHandPositions());
 
-  const handPositionsRef = useRef<{
-    left: THREE.Vector3 | null;
-    right: THREE.Vector3 | null;
-    lastLeft: THREE.Vector3 | null;
-    lastRight: THREE.Vector3 | null;
-    leftVelocity: THREE.Vector3;
-    rightVelocity: THREE.Vector3;
-    lastTimestamp: number;
-  }>({
-    left: null,
-    right: null,
-    lastLeft: null,
-    lastRight: null,
-    leftVelocity: new THREE.Vector3(0,0,0),
-    rightVelocity: new THREE.Vector3(0,0,0),
-    lastTimestamp: 0
-  });
-
-  // To expose raw results for UI preview
+  // To expose raw results for UI preview, with the hand each detection was assigned to
   const lastResultsRef = useRef<HandLandmarkerResult | null>(null);
+  const handAssignmentsRef = useRef<HandType[]>([]);
+
+  const identityTrackerRef = useRef(createHandIdentityTracker());
+  // Read from the detection loop, which is not restarted when the setting changes
+  const swapHandsRef = useRef(swapHands);
+  useEffect(() => {
+    swapHandsRef.current = swapHands;
+    // Identities were built on the old labels
+    identityTrackerRef.current.reset();
+  }, [swapHands]);
+
+  const handFilterRef = useRef(createHandFilter(motionFilter));
+  useEffect(() => {
+    handFilterRef.current = createHandFilter(motionFilter);
+  }, [motionFilter]);
+
+  // Head tracking (null when no pose is visible or the pose model failed to load)
+  const headPositionRef = useRef<THREE.Vector3 | null>(null);
+  const rawHeadRef = useRef<{ x: number; y: number } | null>(null);
+  const headNeutralYRef = useRef(DEFAULT_HEAD_NEUTRAL_Y);
+
+  // Smoothed camera distance per hand (null while the hand is not visible)
+  const handDistanceRef = useRef<Record<HandType, number | null>>({ left: null, right: null });
+  const neutralDistanceRef = useRef(DEFAULT_NEUTRAL_DISTANCE);
 
   const landmarkerRef = useRef<HandLandmarker | null>(null);
+  const poseLandmarkerRef = useRef<PoseLandmarker | null>(null);
   const requestRef = useRef<number>(0);
 
   useEffect(() => {
+    if (!enabled) return;
     let isActive = true;
 
+    // Failures are reported with the stage they happened in
+    let stage = TrackingStage.RUNTIME;
+    const enterStage = (next: TrackingStage) => {
+      stage = next;
+      setLoadingStage(next);
+    };
+
     const setupMediaPipe = async () => {
       try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm"
-        );
-        
+        enterStage(TrackingStage.RUNTIME);
+        const wasmPath = await pickLocation(WASM_PATHS, `/${WASM_PROBE_FILE}`);
+        const vision = await FilesetResolver.forVisionTasks(wasmPath);
+
         if (!isActive) return;
 
-        const landmarker = await HandLandmarker.createFromOptions(vision, {
+        enterStage(TrackingStage.HAND_MODEL);
+        const handModel = await pickLocation(modelUrls(HAND_MODEL));
+
+        // Stays on CPU for the pose model too once the GPU has failed
+        let delegate: 'GPU' | 'CPU' = 'GPU';
+        const createWithFallback = async <T,>(create: (d: 'GPU' | 'CPU') => Promise<T>): Promise<T> => {
+          if (delegate === 'GPU') {
+            try {
+              return await create('GPU');
+            } catch (err) {
+              console.warn("GPU delegate failed, retrying on CPU:", err);
+              delegate = 'CPU';
+            }
+          }
+          return create('CPU');
+        };
+
+        const landmarker = await createWithFallback(d => HandLandmarker.createFromOptions(vision, {
           baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
+            modelAssetPath: handModel,
+            delegate: d
           },
           runningMode: "VIDEO",
           numHands: 2,
           minHandDetectionConfidence: 0.5,
           minHandPresenceConfidence: 0.5,
           minTrackingConfidence: 0.5
-        });
+        }));
 
         if (!isActive) {
              landmarker.close();
@@ -81,10 +234,33 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
         }
 
         landmarkerRef.current = landmarker;
+
+        // Pose is optional: without it walls are shown but cannot be dodged or hit
+        enterStage(TrackingStage.POSE_MODEL);
+        try {
+          const poseModel = await pickLocation(modelUrls(POSE_MODEL));
+          const poseLandmarker = await createWithFallback(d => PoseLandmarker.createFromOptions(vision, {
+            baseOptions: {
+              modelAssetPath: poseModel,
+              delegate: d
+            },
+            runningMode: "VIDEO",
+            numPoses: 1
+          }));
+          if (!isActive) {
+            poseLandmarker.close();
+            return;
+          }
+          poseLandmarkerRef.current = poseLandmarker;
+        } catch (err) {
+          console.warn("Pose tracking unavailable, walls will not be tracked:", err);
+        }
+
+        enterStage(TrackingStage.CAMERA);
         startCamera();
       } catch (err: any) {
-        console.error("Error initializing MediaPipe:", err);
-        setError(`Failed to load hand tracking: ${err.message}`);
+        console.error(`Error initializing MediaPipe (${stage}):`, err);
+        setError(`${STAGE_LABELS[stage]} failed: ${err.message}`);
       }
     };
 
@@ -102,6 +278,7 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
           videoRef.current.srcObject = stream;
           videoRef.current.onloadeddata = () => {
              if (isActive) {
+                 enterStage(TrackingStage.READY);
                  setIsCameraReady(true);
                  predictWebcam();
              }
@@ -109,7 +286,7 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
         }
       } catch (err) {
         console.error("Camera Error:", err);
-        setError("Could not access camera.");
+        setError(`${STAGE_LABELS[TrackingStage.CAMERA]} failed: could not access camera.`);
       }
     };
 
@@ -123,7 +300,11 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
              try {
                  const results = landmarkerRef.current.detectForVideo(video, startTimeMs);
                  lastResultsRef.current = results;
-                 processResults(results);
+                 processResults(results, video.videoWidth / video.videoHeight);
+
+                 if (poseLandmarkerRef.current) {
+                     processPose(poseLandmarkerRef.current.detectForVideo(video, startTimeMs));
+                 }
              } catch (e) {
                  // Sometimes detectForVideo fails if timestamps aren't strictly increasing or video is not ready
                  console.warn("Detection failed this frame", e);
@@ -133,64 +314,87 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
         requestRef.current = requestAnimationFrame(predictWebcam);
     };
 
-    const processResults = (results: HandLandmarkerResult) => {
+    const processPose = (results: PoseLandmarkerResult) => {
+        const nose = results.landmarks?.[0]?.[NOSE_LANDMARK];
+        if (!nose) {
+            rawHeadRef.current = null;
+            headPositionRef.current = null;
+            return;
+        }
+
+        rawHeadRef.current = { x: nose.x, y: nose.y };
+        const target = mapHeadToWorld(nose.x, nose.y, headNeutralYRef.current);
+        if (headPositionRef.current) {
+            headPositionRef.current.lerp(target, 0.5);
+        } else {
+            headPositionRef.current = target;
+        }
+    };
+
+    const processResults = (results: HandLandmarkerResult, aspect: number) => {
         const now = performance.now();
-        const deltaTime = (now - handPositionsRef.current.lastTimestamp) / 1000;
-        handPositionsRef.current.lastTimestamp = now;
 
         let newLeft: THREE.Vector3 | null = null;
         let newRight: THREE.Vector3 | null = null;
+        let newLeftDir: THREE.Vector3 | null = null;
+        let newRightDir: THREE.Vector3 | null = null;
 
-        if (results.landmarks) {
-          for (let i = 0; i < results.landmarks.length; i++) {
-            const landmarks = results.landmarks[i];
-            // Note: MediaPipe 'handedness' can be counter-intuitive when mirrored.
-            const classification = results.handedness[i][0];
-            const isRight = classification.categoryName === 'Right'; 
-            
-            // Index finger tip is landmark 8
-            const tip = landmarks[8];
-            const worldPos = mapHandToWorld(tip.x, tip.y);
-
-            if (isRight) {
-                 newRight = worldPos; 
-            } else {
-                 newLeft = worldPos;
-            }
+        // Who is who: continuity first, the classifier's labels as the tiebreaker
+        const landmarkSets = (results.landmarks ?? []).slice(0, 2);
+        const detections: HandDetection[] = landmarkSets.map((landmarks, i) => {
+            const tip = landmarks[INDEX_TIP_LANDMARK];
+            const classification = results.handedness[i]?.[0];
+            return {
+                position: mapHandToWorld(tip.x, tip.y, 0),
+                hand: labelToHand(classification?.categoryName, swapHandsRef.current),
+                score: classification?.score ?? 0
+            };
+        });
+        const assigned = identityTrackerRef.current.assign(detections, now / 1000);
+        handAssignmentsRef.current = assigned;
+
+        for (let i = 0; i < landmarkSets.length; i++) {
+          const landmarks = landmarkSets[i];
+          const hand = assigned[i];
+
+          // Depth relative to the neutral distance; further from the camera is +Z
+          const previousDistance = handDistanceRef.current[hand];
+          const measured = estimateDistance(landmarks, results.worldLandmarks?.[i], aspect) ?? previousDistance;
+          const distance = measured !== null && previousDistance !== null
+              ? THREE.MathUtils.lerp(previousDistance, measured, DEPTH_LERP)
+              : measured;
+          handDistanceRef.current[hand] = distance;
+          const depth = distance !== null ? (distance - neutralDistanceRef.current) * DEPTH_GAIN : 0;
+
+          const tip = landmarks[INDEX_TIP_LANDMARK];
+          const worldPos = mapHandToWorld(tip.x, tip.y, depth);
+          const direction = handDirection(landmarks[WRIST_LANDMARK], landmarks[MIDDLE_MCP_LANDMARK]);
+
+          if (hand === 'right') {
+               newRight = worldPos; 
+               newRightDir = direction;
+          } else {
+               newLeft = worldPos;
+               newLeftDir = direction;
           }
         }
 
-        // --- Update State with Smoothing & Velocity ---
+        // Start over once a hand is lost, so a new one does not inherit its depth
+        if (!newLeft) handDistanceRef.current.left = null;
+        if (!newRight) handDistanceRef.current.right = null;
+
+        // --- Update State with Filtering & Velocity ---
         const s = handPositionsRef.current;
-        const LERP = 0.6; 
-
-        // Left
-        if (newLeft) {
-            if (s.left) {
-                newLeft.lerpVectors(s.left, newLeft, LERP);
-                if (deltaTime > 0.001) { 
-                     s.leftVelocity.subVectors(newLeft, s.left).divideScalar(deltaTime);
-                }
-            }
-            s.lastLeft = s.left ? s.left.clone() : newLeft.clone();
-            s.left = newLeft;
-        } else {
-            s.left = null;
-        }
+        handFilterRef.current.apply(s, 'left', newLeft, now / 1000);
+        handFilterRef.current.apply(s, 'right', newRight, now / 1000);
 
-        // Right
-        if (newRight) {
-             if (s.right) {
-                 newRight.lerpVectors(s.right, newRight, LERP);
-                 if (deltaTime > 0.001) {
-                      s.rightVelocity.subVectors(newRight, s.right).divideScalar(deltaTime);
-                 }
-             }
-             s.lastRight = s.right ? s.right.clone() : newRight.clone();
-             s.right = newRight;
-        } else {
-            s.right = null;
-        }
+        // Directions are smoothed like positions, then kept unit length
+        const smoothDirection = (previous: THREE.Vector3 | null, next: THREE.Vector3 | null) => {
+            if (!next || !previous) return next;
+            return previous.clone().lerp(next, DIRECTION_LERP).normalize();
+        };
+        s.leftDirection = newLeft ? smoothDirection(s.leftDirection, newLeftDir) : null;
+        s.rightDirection = newRight ? smoothDirection(s.rightDirection, newRightDir) : null;
     };
 
     setupMediaPipe();
@@ -202,13 +406,41 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
       }
       if (landmarkerRef.current) {
           landmarkerRef.current.close();
+          landmarkerRef.current = null;
+      }
+      if (poseLandmarkerRef.current) {
+          poseLandmarkerRef.current.close();
+          poseLandmarkerRef.current = null;
       }
       if (videoRef.current && videoRef.current.srcObject) {
           const stream = videoRef.current.srcObject as MediaStream;
           stream.getTracks().forEach(t => t.stop());
+          videoRef.current.srcObject = null;
       }
+      setIsCameraReady(false);
+      setError(null);
+      handPositionsRef.current.left = null;
+      handPositionsRef.current.right = null;
+      handPositionsRef.current.leftDirection = null;
+      handPositionsRef.current.rightDirection = null;
+      headPositionRef.current = null;
+      handAssignmentsRef.current = [];
+      identityTrackerRef.current.reset();
+      handFilterRef.current.reset();
     };
-  }, [videoRef]);
+  }, [videoRef, enabled]);
+
+  // Treat the player's current stance as neutral: standing height, and the hand
+  // distance that counts as Z = 0
+  const calibrate = useCallback(() => {
+      if (rawHeadRef.current) {
+          headNeutralYRef.current = rawHeadRef.current.y;
+      }
+      const distances = [handDistanceRef.current.left, handDistanceRef.current.right].filter((d): d is number => d !== null);
+      if (distances.length > 0) {
+          neutralDistanceRef.current = distances.reduce((a, b) => a + b, 0) / distances.length;
+      }
+  }, []);
 
-  return { isCameraReady, handPositionsRef, lastResultsRef, error };
+  return { isCameraReady, handPositionsRef, lastResultsRef, handAssignmentsRef, headPositionRef, calibrate, loadingStage, error };
 };
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useEffect, useState } from 'react';
+import { ScoreRecord } from '../types';
+import { loadScores, saveScore, importScores, exportScores } from '../utils/scoreStore';
+import { downloadJson } from '../utils/download';
+
+// Score history backed by IndexedDB. Records are loaded once and kept in memory for
+// the leaderboard and personal bests.
+export const useScores = () => {
+  const [scores, setScores] = useState<ScoreRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadScores()
+      .then(setScores)
+      .catch((e: Error) => {
+        console.warn("Could not load scores", e);
+        setError(e.message);
+      });
+  }, []);
+
+  const addScore = useCallback(async (record: ScoreRecord) => {
+    try {
+      const saved = await saveScore(record);
+      setScores(prev => [...prev, saved]);
+    } catch (e: any) {
+      console.warn("Could not save score", e);
+      setError(e.message);
+    }
+  }, []);
+
+  const importFile = useCallback(async (file: File) => {
+    try {
+      const added = await importScores(await file.text(), scores);
+      setScores(prev => [...prev, ...added]);
+      setError(null);
+      return added.length;
+    } catch (e: any) {
+      console.error("Score import failed", e);
+      setError(e.message);
+      return 0;
+    }
+  }, [scores]);
+
+  const exportFile = useCallback(() => {
+    downloadJson(`cyber-blade-scores-${new Date().toISOString().slice(0, 10)}.json`, exportScores(scores));
+  }, [scores]);
+
+  return { scores, error, addScore, importFile, exportFile };
+};
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useState } from 'react';
+import { GameSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+
+const STORAGE_KEY = 'cyber-blade-settings';
+
+const loadSettings = (): GameSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    // Merge so settings added in later versions get their defaults
+    const parsed = JSON.parse(stored);
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      motionFilter: { ...DEFAULT_SETTINGS.motionFilter, ...parsed.motionFilter }
+    };
+  } catch (e) {
+    console.warn("Could not read settings, using defaults", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Settings backed by localStorage
+export const useSettings = () => {
+  const [settings, setSettings] = useState<GameSettings>(loadSettings);
+
+  const updateSettings = useCallback((patch: Partial<GameSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (e) {
+        console.warn("Could not save settings", e);
+      }
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+};
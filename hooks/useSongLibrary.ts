@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useEffect, useState } from 'react';
+import { Song } from '../types';
+import { BUILT_IN_SONG, importSongFiles, loadSongs, saveSong, deleteSong } from '../utils/songLibrary';
+
+// The song library: the built-in track first, then imported songs by title
+export const useSongLibrary = () => {
+  const [songs, setSongs] = useState<Song[]>([BUILT_IN_SONG]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const withImported = (imported: Song[]) =>
+    [BUILT_IN_SONG, ...imported.filter(s => s.id !== BUILT_IN_SONG.id).sort((a, b) => a.title.localeCompare(b.title))];
+
+  useEffect(() => {
+    loadSongs()
+      .then(stored => setSongs(withImported(stored)))
+      .catch((e: Error) => {
+        console.warn("Could not load songs", e);
+        setError(e.message);
+      });
+  }, []);
+
+  // Import one song from its files; resolves to it, or null when the import failed
+  const importFiles = useCallback(async (files: File[]): Promise<Song | null> => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const song = await importSongFiles(files);
+      if (song.id === BUILT_IN_SONG.id) throw new Error(`"${song.title}" is already in the library`);
+      try {
+        await saveSong(song);
+      } catch (e) {
+        // Still playable this session
+        console.warn("Could not store song", e);
+      }
+      setSongs(prev => withImported([...prev.filter(s => !s.builtIn && s.id !== song.id), song]));
+      return song;
+    } catch (e: any) {
+      console.error("Song import failed", e);
+      setError(e.message);
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  }, []);
+
+  const removeSong = useCallback(async (id: string) => {
+    try {
+      await deleteSong(id);
+    } catch (e) {
+      console.warn("Could not delete song", e);
+    }
+    setSongs(prev => prev.filter(s => s.builtIn || s.id !== id));
+  }, []);
+
+  return { songs, isImporting, error, importFiles, removeSong };
+};
@@ -0,0 +1,313 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Headless checks for the game's pure modules, run on Node with no browser.
+// Usage: npm test
+
+import assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { CutDirection, CutOutcome, Difficulty, HandPositions, Modifier, NoteData, ReplayFrame, ScoreRecord, SongChart, Theme } from '../types';
+import { DEFAULT_SETTINGS, LANE_X_POSITIONS, LAYER_Y_POSITIONS, PLAYER_Z } from '../constants';
+import { parseBeatmap, parseBeatmapTempo, serializeBeatmap } from '../utils/beatmap';
+import { barPosition, beatToSeconds, constantTempo, createTempoMap, secondsToBeat } from '../utils/tempoMap';
+import { captureFrame, createReplayPlayer, createReplayRecorder, parseReplay } from '../utils/replay';
+import { createGameEngine, EngineEvent, GameEngine } from '../utils/gameEngine';
+import { createHandIdentityTracker } from '../utils/handIdentity';
+import { exportScores, importScores } from '../utils/scoreStore';
+import { applyModifiers } from '../utils/modifiers';
+
+const check = async (name: string, body: () => void | Promise<void>) => {
+  await body();
+  console.log(`ok - ${name}`);
+};
+
+// --- BEATMAPS ---
+
+const CHART: NoteData[] = [
+  { id: 'a', time: 0.5, lineIndex: 0, lineLayer: 0, type: 'left', cutDirection: CutDirection.DOWN },
+  { id: 'b', time: 1.25, lineIndex: 3, lineLayer: 2, type: 'right', cutDirection: CutDirection.ANY },
+  { id: 'c', time: 2, lineIndex: 1, lineLayer: 1, type: 'right', cutDirection: CutDirection.LEFT }
+];
+
+// Chart fields that survive a beatmap file, with times rounded as the file stores them
+const playable = (chart: NoteData[]) => chart.map(({ time, lineIndex, lineLayer, type, cutDirection }) =>
+  ({ time: Math.round(time * 1000) / 1000, lineIndex, lineLayer, type, cutDirection }));
+
+await check('v2 and v3 beatmaps round-trip a chart', () => {
+  for (const version of ['v2', 'v3'] as const) {
+    const file = JSON.stringify(serializeBeatmap(CHART, constantTempo(96), version));
+    assert.deepEqual(playable(parseBeatmap(file)), playable(CHART), version);
+  }
+});
+
+await check('beatmap beats are converted with the map BPM', () => {
+  const notes = parseBeatmap({
+    _version: '2.6.0',
+    _notes: [{ _time: 4, _lineIndex: 0, _lineLayer: 0, _type: 1, _cutDirection: 8 }],
+    _customData: { bpm: 120 }
+  });
+  assert.equal(notes[0].time, 2);
+  assert.equal(notes[0].cutDirection, CutDirection.ANY);
+});
+
+await check('beatmap notes off the grid are rejected', () => {
+  const file = { version: '3.3.0', colorNotes: [{ b: 1, x: 4, y: 0, c: 0, d: 1 }] };
+  assert.throws(() => parseBeatmap(file), /lineIndex 4 out of range/);
+});
+
+await check('beatmaps with malformed entries or tempo are rejected', () => {
+  assert.throws(() => parseBeatmap({ version: '3.3.0', colorNotes: [null] }), /invalid beat time/);
+  assert.throws(() => parseBeatmap({ version: '3.3.0', colorNotes: [], customData: { bpm: '120' } }), /Invalid BPM/);
+  assert.throws(() => parseBeatmap({ _version: '2.6.0', _notes: [], _BPMChanges: [{ _time: 4 }] }), /Invalid BPM change/);
+  assert.throws(() => parseBeatmap('[]'), /Unrecognised beatmap/);
+});
+
+// --- TEMPO MAPS ---
+
+// 120 BPM in 4/4 from half a second in, then 60 BPM in 3/4 from beat 8
+const TEMPO = createTempoMap(120, [{ beat: 8, bpm: 60 }], [{ beat: 8, numerator: 3, denominator: 4 }], 0.5);
+
+await check('beats convert to seconds and back across a tempo change', () => {
+  assert.equal(beatToSeconds(TEMPO, 4), 2.5);
+  assert.equal(beatToSeconds(TEMPO, 10), 6.5);
+  assert.equal(secondsToBeat(TEMPO, 2.5), 4);
+  assert.equal(secondsToBeat(TEMPO, 6.5), 10);
+});
+
+await check('bar positions follow time signature changes', () => {
+  assert.deepEqual(barPosition(TEMPO, 5), { bar: 1, beatInBar: 1, numerator: 4 });
+  assert.deepEqual(barPosition(TEMPO, 10), { bar: 2, beatInBar: 2, numerator: 3 });
+});
+
+await check('v2 and v3 beatmaps round-trip a tempo map and the chart on it', () => {
+  for (const version of ['v2', 'v3'] as const) {
+    const file = JSON.stringify(serializeBeatmap(CHART, TEMPO, version));
+    assert.deepEqual(parseBeatmapTempo(file), TEMPO, version);
+    assert.deepEqual(playable(parseBeatmap(file)), playable(CHART), version);
+  }
+});
+
+// --- REPLAYS ---
+
+const recordReplay = () => {
+  const recorder = createReplayRecorder({
+    song: { id: 'check', title: 'Check', bpm: 120 },
+    difficulty: Difficulty.MEDIUM,
+    modifiers: [],
+    theme: Theme.NEON,
+    settings: DEFAULT_SETTINGS,
+    chart: CHART,
+    obstacles: []
+  });
+  const hands: HandPositions = {
+    left: new THREE.Vector3(0.123456, 1, -2),
+    right: null,
+    leftVelocity: new THREE.Vector3(1, 0, 0),
+    rightVelocity: new THREE.Vector3(),
+    leftDirection: new THREE.Vector3(0, 1, 0),
+    rightDirection: null
+  };
+  recorder.recordFrame(captureFrame(0.5, 1.5, 1 / 60, hands, null));
+  recorder.recordFrame(captureFrame(0.6, 1.6, 1 / 60, hands, new THREE.Vector3(0, 1.7, 0)));
+  return recorder.finish(1000);
+};
+
+await check('a recorded replay plays its frames back after a save', () => {
+  const player = createReplayPlayer(parseReplay(JSON.stringify(recordReplay())));
+  const frames = player.framesUntil(0.55);
+  assert.equal(frames.length, 1);
+  assert.equal(frames[0].hands.left!.x, 0.1235);
+  assert.equal(frames[0].hands.right, null);
+  assert.deepEqual(frames[0].hands.leftDirection, new THREE.Vector3(0, 1, 0));
+  assert.equal(player.framesUntil(1).length, 1);
+});
+
+await check('files that are not intact replays are rejected', () => {
+  const replay = recordReplay();
+  assert.throws(() => parseReplay('{}'), /Not a replay file/);
+  assert.throws(() => parseReplay({ ...replay, version: 99 }), /Unsupported replay version/);
+  assert.throws(() => parseReplay({ ...replay, events: undefined }), /missing its chart or events/);
+  assert.throws(() => parseReplay({ ...replay, frames: replay.frames.slice(1) }), /frame data is corrupted/);
+  assert.throws(() => parseReplay({ ...replay, theme: 'SEPIA' }), /missing its song, difficulty, theme or modifiers/);
+  assert.throws(() => parseReplay({ ...replay, modifiers: ['TURBO'] }), /missing its song, difficulty, theme or modifiers/);
+  assert.throws(() => parseReplay({ ...replay, song: { title: 'Check' } }), /missing its song, difficulty, theme or modifiers/);
+  assert.throws(() => parseReplay({ ...replay, settings: { inputOffsetMs: 0 } }), /missing its timing offsets/);
+  assert.throws(() => parseReplay({ ...replay, chart: [{ ...CHART[0], cutDirection: 42 }] }), /missing its chart or events/);
+});
+
+// --- ENGINE ---
+// Short songs driven by synthetic hand traces
+
+const FRAME = 1 / 60;
+const NOTE_SPEED = 12;
+const SWING_SPEED = 6; // World units/s, well over the cut threshold
+
+// A left-hand note in the middle layer
+const note = (id: string, time: number, lineIndex = 1, cutDirection = CutDirection.ANY): NoteData =>
+  ({ id, time, lineIndex, lineLayer: 1, type: 'left', cutDirection });
+
+// The left hand sweeping down through lane 1's middle layer, passing it at `cutAt`
+const swingThrough = (cutAt: number) => (time: number): HandPositions => {
+  const swinging = Math.abs(time - cutAt) < 0.5;
+  return {
+    left: swinging ? new THREE.Vector3(LANE_X_POSITIONS[1], LAYER_Y_POSITIONS[1] + (cutAt - time) * SWING_SPEED, PLAYER_Z) : null,
+    right: null,
+    leftVelocity: new THREE.Vector3(0, swinging ? -SWING_SPEED : 0, 0),
+    rightVelocity: new THREE.Vector3(),
+    leftDirection: null,
+    rightDirection: null
+  };
+};
+
+const noHands = swingThrough(-Infinity);
+
+// Step from `from` to `to` (song seconds), returning every event with the time it came at
+const run = (engine: GameEngine, hands: (time: number) => HandPositions, from: number, to: number) => {
+  const events: { time: number; event: EngineEvent }[] = [];
+  for (let time = from; time < to; time += FRAME) {
+    const frame: ReplayFrame = { time, clock: time, delta: FRAME, hands: hands(time), head: null };
+    engine.step(frame).forEach(event => events.push({ time, event }));
+  }
+  return events;
+};
+
+const kinds = (events: { event: EngineEvent }[]) => events.map(({ event }) => `${event.type}:${'note' in event ? event.note.id : event.obstacle.id}`);
+
+await check('a swing through a note scores it after the follow-through', () => {
+  const engine = createGameEngine({ chart: [note('a', 2)], obstacles: [], noteSpeed: NOTE_SPEED });
+  const events = run(engine, swingThrough(2), 0, 3);
+  assert.deepEqual(kinds(events), ['contact:a', 'hit:a']);
+  const hit = events[1].event;
+  assert.ok(hit.type === 'hit' && hit.cut.total > 0);
+});
+
+await check('a swing against an arrow is judged the wrong direction', () => {
+  const engine = createGameEngine({ chart: [note('a', 2, 1, CutDirection.UP)], obstacles: [], noteSpeed: NOTE_SPEED });
+  const [contact] = run(engine, swingThrough(2), 0, 3);
+  assert.ok(contact.event.type === 'contact' && contact.event.outcome === CutOutcome.WRONG_DIRECTION);
+});
+
+await check('a note nobody swings at is missed once', () => {
+  const engine = createGameEngine({ chart: [note('a', 2)], obstacles: [], noteSpeed: NOTE_SPEED });
+  assert.deepEqual(kinds(run(engine, noHands, 0, 3)), ['miss:a']);
+});
+
+await check('cuts in their follow-through are scored when the song ends', () => {
+  const engine = createGameEngine({ chart: [note('a', 2)], obstacles: [], noteSpeed: NOTE_SPEED });
+  assert.deepEqual(kinds(run(engine, swingThrough(2), 0, 2.05)), ['contact:a']);
+  assert.deepEqual(kinds(engine.flush().map(event => ({ event }))), ['hit:a']);
+});
+
+await check('a rewind scores pending cuts and judges notes in reach again', () => {
+  // 'b' (another lane) is passing the player when the run pauses; 'c' comes after the pause
+  const chart = [note('a', 2), note('b', 2.04, 3), note('c', 4, 3)];
+  const engine = createGameEngine({ chart, obstacles: [], noteSpeed: NOTE_SPEED });
+  const before = run(engine, swingThrough(2), 0, 2.06);
+  assert.deepEqual(kinds(before), ['contact:a']);
+  // Resume two seconds back, as after a pause
+  const after = run(engine, noHands, 0.06, 5);
+  assert.deepEqual(kinds(after), ['hit:a', 'miss:b', 'miss:c']);
+  // 'b' is only missed once it flies past again, not at the rewind
+  assert.ok(after[1].time > 2);
+});
+
+await check('a note reaching the player as the run pauses can be cut after the rewind', () => {
+  const engine = createGameEngine({ chart: [note('a', 2)], obstacles: [], noteSpeed: NOTE_SPEED });
+  assert.deepEqual(kinds(run(engine, noHands, 0, 2.05)), []);
+  assert.deepEqual(kinds(run(engine, swingThrough(2), 0.05, 3)), ['contact:a', 'hit:a']);
+});
+
+await check('a new pass judges the notes from its start afresh', () => {
+  const engine = createGameEngine({ chart: [note('a', 1), note('b', 3)], obstacles: [], noteSpeed: NOTE_SPEED });
+  run(engine, swingThrough(3), 0, 4);
+  engine.seek(2);
+  assert.deepEqual(kinds(run(engine, swingThrough(3), 1, 4)), ['contact:b', 'hit:b']);
+});
+
+// --- HAND IDENTITY ---
+
+await check('hands keep their identity while crossing over', () => {
+  const tracker = createHandIdentityTracker();
+  // Hands swap sides in two thirds of a second; the classifier labels by side, so it flips halfway
+  for (let i = 0; i <= 40; i++) {
+    const x = -1 + i / 20;
+    const detections = [
+      { position: new THREE.Vector3(x, 0, 0), hand: x > 0 ? 'right' : 'left', score: 0.9 },
+      { position: new THREE.Vector3(-x, 1, 0), hand: -x > 0 ? 'right' : 'left', score: 0.9 }
+    ] as const;
+    assert.deepEqual(tracker.assign([...detections], i * FRAME), ['left', 'right'], `frame ${i}`);
+  }
+});
+
+await check('a confident classifier takes over only after sustained disagreement', () => {
+  const tracker = createHandIdentityTracker();
+  const at = (hand: 'left' | 'right', score: number) => [{ position: new THREE.Vector3(0, 1, 0), hand, score }];
+  tracker.assign(at('left', 0.9), 0);
+  const unsure = Array.from({ length: 60 }, (_, i) => tracker.assign(at('right', 0.5), (i + 1) * FRAME)[0]);
+  assert.ok(unsure.every(hand => hand === 'left'));
+  const confident = Array.from({ length: 30 }, (_, i) => tracker.assign(at('right', 0.9), (i + 61) * FRAME)[0]);
+  assert.deepEqual(confident.indexOf('right'), 29);
+});
+
+// --- SCORES ---
+
+const RUN: ScoreRecord = {
+  id: 1,
+  songId: 'check',
+  songTitle: 'Check',
+  difficulty: Difficulty.HARD,
+  modifiers: [],
+  score: 52000,
+  maxCombo: 120,
+  accuracy: 0.91,
+  cleared: true,
+  date: '2026-01-01T00:00:00.000Z'
+};
+
+await check('imported runs that are already stored are skipped', async () => {
+  const file = JSON.stringify(exportScores([RUN, RUN]));
+  assert.deepEqual(await importScores(file, [RUN]), []);
+  // A new run gets as far as the database, which Node does not have
+  await assert.rejects(importScores(file, [{ ...RUN, score: 1 }]), /in this browser/);
+});
+
+await check('files that are not intact score exports are rejected', async () => {
+  const file = exportScores([RUN]);
+  await assert.rejects(importScores('{}', []), /Not a score export/);
+  await assert.rejects(importScores(JSON.stringify({ ...file, version: 99 }), []), /Unsupported score export version/);
+  const { score: _, ...scoreless } = RUN;
+  await assert.rejects(importScores(JSON.stringify({ ...file, scores: [scoreless] }), []), /corrupted/);
+  await assert.rejects(importScores(JSON.stringify({ ...file, scores: [{ ...RUN, cleared: 'yes' }] }), []), /corrupted/);
+  await assert.rejects(importScores(JSON.stringify({ ...file, scores: [{ ...RUN, modifiers: ['TURBO'] }] }), []), /corrupted/);
+});
+
+// --- MODIFIERS ---
+
+const MODIFIED: SongChart = {
+  notes: [
+    { id: 'l', time: 1, lineIndex: 0, lineLayer: 0, type: 'left', cutDirection: CutDirection.DOWN_LEFT },
+    { id: 'r', time: 2, lineIndex: 2, lineLayer: 1, type: 'right', cutDirection: CutDirection.RIGHT },
+    { id: 'x', time: 3, lineIndex: 1, lineLayer: 2, type: 'bomb', cutDirection: CutDirection.ANY }
+  ],
+  obstacles: [{ id: 'w', time: 4, duration: 1, lineIndex: 0, lineLayer: 0, width: 1, height: 5 }]
+};
+
+const layout = (chart: SongChart) => chart.notes.map(n => `${n.id}:${n.type}@${n.lineIndex}:${n.cutDirection}`);
+
+await check('mirror swaps lanes, hands and directions', () => {
+  const mirrored = applyModifiers(MODIFIED, [Modifier.MIRROR]);
+  assert.deepEqual(layout(mirrored), [
+    `l:right@3:${CutDirection.DOWN_RIGHT}`,
+    `r:left@1:${CutDirection.LEFT}`,
+    `x:bomb@2:${CutDirection.ANY}`
+  ]);
+  assert.equal(mirrored.obstacles[0].lineIndex, 3);
+});
+
+await check('one hand keeps a single hand\'s notes and the bombs', () => {
+  assert.deepEqual(applyModifiers(MODIFIED, [Modifier.ONE_HAND]).notes.map(n => n.id), ['r', 'x']);
+  // Mirrored after filtering, so the left hand plays
+  assert.deepEqual(applyModifiers(MODIFIED, [Modifier.ONE_HAND, Modifier.MIRROR]).notes.map(n => n.type), ['left', 'bomb']);
+});
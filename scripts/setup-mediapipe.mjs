@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Downloads the MediaPipe tracking models into public/, so the app can serve them itself and
+// hand tracking works offline. The wasm runtime comes from node_modules (see vite.config.ts).
+// Usage: npm run setup:mediapipe
+
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const OUT_DIR = path.resolve('public/mediapipe');
+
+const MODELS = {
+  'hand_landmarker.task': 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+  'pose_landmarker_lite.task': 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task'
+};
+
+const exists = async (file) => {
+  try {
+    return (await stat(file)).size > 0;
+  } catch {
+    return false;
+  }
+};
+
+const downloadModels = async () => {
+  const dest = path.join(OUT_DIR, 'models');
+  await mkdir(dest, { recursive: true });
+  for (const [file, url] of Object.entries(MODELS)) {
+    const target = path.join(dest, file);
+    if (await exists(target)) {
+      console.log(`${file} already present`);
+      continue;
+    }
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Download of ${file} failed: ${res.status} ${res.statusText}`);
+    await writeFile(target, Buffer.from(await res.arrayBuffer()));
+    console.log(`Downloaded ${file}`);
+  }
+};
+
+try {
+  await downloadModels();
+} catch (err) {
+  console.error(err.message);
+  process.exit(1);
+}
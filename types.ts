@@ -11,7 +11,10 @@ export enum GameStatus {
   PLAYING = 'PLAYING',
   PAUSED = 'PAUSED',
   GAME_OVER = 'GAME_OVER',
-  VICTORY = 'VICTORY'
+  VICTORY = 'VICTORY',
+  EDITOR = 'EDITOR',
+  CALIBRATION = 'CALIBRATION',
+  SONG_SELECT = 'SONG_SELECT'
 }
 
 export enum Difficulty {
@@ -20,6 +23,17 @@ export enum Difficulty {
   HARD = 'HARD'
 }
 
+// Gameplay modifiers picked before a run (see MODIFIERS and utils/modifiers)
+export enum Modifier {
+  NO_FAIL = 'NO_FAIL',
+  FASTER_SONG = 'FASTER_SONG',
+  SLOWER_SONG = 'SLOWER_SONG',
+  DISAPPEARING_NOTES = 'DISAPPEARING_NOTES',
+  GHOST_NOTES = 'GHOST_NOTES',
+  ONE_HAND = 'ONE_HAND',
+  MIRROR = 'MIRROR'
+}
+
 export enum Theme {
   NEON = 'NEON',
   VAPOR = 'VAPOR',
@@ -39,13 +53,39 @@ export interface ColorPalette {
 
 export type HandType = 'left' | 'right';
 
-// 0: Up, 1: Down, 2: Left, 3: Right, 4: Any (Dot)
+// Bombs are hazards: touching one with either hand is penalised
+export type NoteType = HandType | 'bomb';
+
+// Matches Beat Saber numbering: 0: Up, 1: Down, 2: Left, 3: Right, 4-7: Diagonals, 8: Any (Dot)
 export enum CutDirection {
   UP = 0,
   DOWN = 1,
   LEFT = 2,
   RIGHT = 3,
-  ANY = 4
+  UP_LEFT = 4,
+  UP_RIGHT = 5,
+  DOWN_LEFT = 6,
+  DOWN_RIGHT = 7,
+  ANY = 8
+}
+
+// How a note was cut, reported with every hit
+export enum CutOutcome {
+  GOOD = 'GOOD',                       // Fast enough and in the right direction
+  WEAK = 'WEAK',                       // Touched, but the swing was too slow
+  WRONG_DIRECTION = 'WRONG_DIRECTION'  // Fast swing against the arrow
+}
+
+// Score breakdown for a single cut (see utils/cutScoring)
+export interface CutScore {
+  hand: HandType;
+  outcome: CutOutcome;
+  speed: number;     // Hand speed at contact (world units/s)
+  timing: number;    // Seconds between the note's beat and contact (negative: early)
+  preSwing: number;  // 0-70: arc travelled into the note
+  postSwing: number; // 0-30: follow-through after contact
+  accuracy: number;  // 0-15: closeness of the swing to the note center
+  total: number;     // Sum of the above, 0 for wrong-direction cuts
 }
 
 export interface NoteData {
@@ -53,11 +93,122 @@ export interface NoteData {
   time: number;     // Time in seconds when it should reach the player
   lineIndex: number; // 0-3 (horizontal position)
   lineLayer: number; // 0-2 (vertical position)
-  type: HandType;    // which hand should cut it
+  type: NoteType;    // which hand should cut it, or 'bomb' to avoid
   cutDirection: CutDirection;
   hit?: boolean;
   missed?: boolean;
   hitTime?: number; // Time when hit occurred
+  cutOutcome?: CutOutcome;
+  slice?: NoteSlice; // How the blade went through, for the sliced halves
+}
+
+// A cut through a note, in world axes
+export interface NoteSlice {
+  normal: [number, number, number]; // Of the plane holding the blade and its swing
+  point: [number, number, number];  // Where the blade touched, relative to the note center
+  swing: [number, number, number];  // Hand velocity at contact
+}
+
+// A tempo from a beat on; beats after it last 60 / bpm seconds
+export interface TempoChange {
+  beat: number;
+  bpm: number;
+}
+
+// A meter from a beat on, e.g. 3/4. Bars start on the beat it is placed at.
+export interface TimeSignature {
+  beat: number;
+  numerator: number;   // Beats per bar
+  denominator: number; // Note value of a beat
+}
+
+// Where the beats of a song fall (see utils/tempoMap)
+export interface TempoMap {
+  offset: number;               // Seconds into the audio where beat 0 falls
+  tempos: TempoChange[];        // Sorted by beat, the first at beat 0
+  signatures: TimeSignature[];  // Sorted by beat, the first at beat 0
+}
+
+// How a song's charts were made
+export type ChartSource = 'generated' | 'analyzed' | 'beatmap';
+
+export interface SongChart {
+  notes: NoteData[];
+  obstacles: ObstacleData[];
+}
+
+// An entry of the song library (see utils/songLibrary)
+export interface Song {
+  id: string;
+  title: string;
+  artist: string;
+  tempo: TempoMap;
+  audio: string | Blob;  // URL of a built-in track, or the imported file
+  cover: Blob | null;
+  previewStart: number;  // Seconds into the track where the song-select preview loops from
+  charts: Partial<Record<Difficulty, SongChart>>;
+  chartSource: ChartSource;
+  builtIn: boolean;      // Shipped with the app; cannot be deleted
+}
+
+// Practice run over part of a song (see utils/practice)
+export interface PracticeSettings {
+  start: number;  // Song seconds judging starts from
+  end: number;    // Song seconds the loop jumps back at
+  loop: boolean;  // Off: play on from start to the end of the song
+  speed: number;  // Playback rate; notes keep their usual on-screen speed
+}
+
+// A wall the player dodges by leaning or ducking. Grid units match notes.
+export interface ObstacleData {
+  id: string;
+  time: number;      // Time in seconds when the front face reaches the player
+  duration: number;  // Seconds it takes the wall to pass the player
+  lineIndex: number; // 0-3 leftmost lane covered
+  width: number;     // Number of lanes covered
+  lineLayer: number; // 0-2 bottom edge (0 = floor)
+  height: number;    // Layers tall; 5 from the floor reaches above head height
+}
+
+// Where saber positions come from
+export enum InputMode {
+  WEBCAM = 'WEBCAM',     // Hand tracking from the camera
+  POINTER = 'POINTER',   // Mouse or touch drag
+  KEYBOARD = 'KEYBOARD', // WASD / arrow keys
+  GAMEPAD = 'GAMEPAD'    // Analog sticks
+}
+
+// Why a run paused itself (see hooks/useAutoPause)
+export enum PauseReason {
+  TAB_HIDDEN = 'TAB_HIDDEN',
+  FOCUS_LOST = 'FOCUS_LOST',
+  CAMERA_ENDED = 'CAMERA_ENDED',
+  TRACKING_LOST = 'TRACKING_LOST'
+}
+
+export enum MotionFilterType {
+  NONE = 'NONE',         // Raw samples, single-frame velocity
+  ONE_EURO = 'ONE_EURO', // Adaptive low-pass: smooth at rest, responsive when swinging
+  KALMAN = 'KALMAN'      // Constant-velocity Kalman filter
+}
+
+// Smoothing applied to every input source before it reaches HandPositions (see utils/motionFilter)
+export interface MotionFilterSettings {
+  type: MotionFilterType;
+  minCutoff: number;        // One Euro: cutoff (Hz) at rest. Lower is steadier but laggier.
+  beta: number;             // One Euro: how fast the cutoff rises with speed. Higher lags less in swings.
+  processNoise: number;     // Kalman: expected acceleration (world units/s²)
+  measurementNoise: number; // Kalman: tracking jitter (world units)
+  predictionMs: number;     // Look-ahead that offsets tracking latency
+}
+
+// Player preferences persisted between sessions
+export interface GameSettings {
+  audioOffsetMs: number; // Audio output latency: how late the player hears the song
+  inputOffsetMs: number; // Tracking latency: how late hand positions arrive
+  inputMode: InputMode;
+  swapHands: boolean; // Webcam: hand labels are reversed (e.g. the camera mirrors its image)
+  motionFilter: MotionFilterSettings;
 }
 
 export interface HandPositions {
@@ -65,4 +216,81 @@ export interface HandPositions {
   right: THREE.Vector3 | null;
   leftVelocity: THREE.Vector3;
   rightVelocity: THREE.Vector3;
+  // Blade direction (unit vector, hilt to tip) from the hand's pose.
+  // null when the input cannot tell; the saber then uses a resting pose and hits with its hand point.
+  leftDirection: THREE.Vector3 | null;
+  rightDirection: THREE.Vector3 | null;
+}
+
+// Common shape of every input source (see hooks/useInputProvider)
+export interface InputProvider {
+  handPositionsRef: { current: HandPositions };
+  headPositionRef: { current: THREE.Vector3 | null }; // null when the source cannot track the head
+  isReady: boolean;
+  error: string | null;
+  calibrate: () => void; // Take the current stance as neutral (head height, hand depth)
+}
+
+// What happened to one note in a run (see utils/sessionStats)
+export interface NoteResult {
+  noteId: string;
+  time: number;          // The note's beat time (seconds)
+  hand: HandType;        // The hand the note was meant for
+  hit: boolean;
+  outcome: CutOutcome | null; // null for misses
+  cut: number;           // Cut points, 0-115 (0 for misses and wrong-direction cuts)
+  points: number;        // Score gained, multiplier included
+  timing: number | null; // Seconds from the beat to contact (negative: early)
+  speed: number | null;  // Hand speed at contact (world units/s)
+  combo: number;         // Combo after this note
+}
+
+// One finished run (cleared or failed), kept in the local score database
+export interface ScoreRecord {
+  id?: number;          // Assigned by the database
+  songId: string;
+  songTitle: string;
+  difficulty: Difficulty;
+  modifiers: Modifier[];
+  score: number;        // Modifier multiplier included
+  maxCombo: number;
+  accuracy: number;     // 0-1: cut points earned out of the maximum for every note
+  cleared: boolean;
+  date: string;         // ISO timestamp
+}
+
+// Inputs for one simulation step. Recorded during play and fed back in replays.
+export interface ReplayFrame {
+  time: number;  // Song time (seconds, audio offset applied)
+  clock: number; // Scene clock, the time base of swing measurement
+  delta: number; // Seconds since the previous step
+  hands: HandPositions;
+  head: THREE.Vector3 | null;
+}
+
+export interface ReplayEvent {
+  time: number;
+  kind: 'hit' | 'miss' | 'bomb';
+  noteId: string;
+  outcome?: CutOutcome; // Hits only
+  total?: number;       // Hits only
+}
+
+// A complete recorded session (see utils/replay)
+export interface ReplayData {
+  format: 'cyber-blade-replay';
+  version: number;
+  recordedAt: string;
+  song: { id: string; title: string; bpm: number };
+  difficulty: Difficulty;
+  modifiers: Modifier[];
+  theme: Theme;
+  settings: Pick<GameSettings, 'audioOffsetMs' | 'inputOffsetMs'>; // Only the offsets matter for playback
+  chart: NoteData[];
+  obstacles: ObstacleData[];
+  // Flat list of frames, 24 values each: time, clock, delta, left xyz, right xyz,
+  // left velocity xyz, right velocity xyz, head xyz, left direction xyz, right direction xyz (null when untracked)
+  frames: (number | null)[];
+  events: ReplayEvent[];
+  score: number;
 }
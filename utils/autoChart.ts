@@ -0,0 +1,327 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CutDirection, Difficulty, HandType, NoteData, TempoMap } from '../types';
+import { createSwingPattern } from '../constants';
+import { beatToSeconds, constantTempo, secondsToBeat } from './tempoMap';
+
+// Automatic chart generation from an audio file.
+// Pipeline: decode -> split into low/mid/high bands (OfflineAudioContext filters)
+// -> onset envelope (spectral-flux style) -> tempo & beat phase -> peak-picked onsets
+// -> per-difficulty charts quantized to the beat grid.
+
+export interface Onset {
+  time: number;     // seconds
+  strength: number; // 0-1, relative to the loudest onset
+  band: number;     // 0: low, 1: mid, 2: high (dominant band)
+}
+
+export interface AudioAnalysis {
+  duration: number;
+  bpm: number;
+  beatOffset: number;   // Time of the first beat in seconds
+  onsets: Onset[];
+  energy: Float32Array; // Per-frame loudness, normalized 0-1
+  frameRate: number;    // Envelope frames per second
+}
+
+// Analysis config
+const ANALYSIS_SAMPLE_RATE = 22050;
+const HOP_SIZE = 512;
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const MIN_ONSET_GAP = 0.1; // seconds
+// Notes earlier than this would spawn already halfway down the track
+const FIRST_NOTE_TIME = 2;
+
+// --- DECODING ---
+
+export const decodeAudioFile = async (file: Blob): Promise<AudioBuffer> => {
+  // A tiny offline context is enough to access the decoder without needing a user gesture
+  const ctx = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  return ctx.decodeAudioData(await file.arrayBuffer());
+};
+
+// Render the buffer through three filters into a 3-channel buffer (low, mid, high)
+const renderBands = async (buffer: AudioBuffer): Promise<AudioBuffer> => {
+  const length = Math.ceil(buffer.duration * ANALYSIS_SAMPLE_RATE);
+  const ctx = new OfflineAudioContext(3, length, ANALYSIS_SAMPLE_RATE);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+
+  const merger = ctx.createChannelMerger(3);
+
+  const low = ctx.createBiquadFilter();
+  low.type = 'lowpass';
+  low.frequency.value = 200;
+
+  const mid = ctx.createBiquadFilter();
+  mid.type = 'bandpass';
+  mid.frequency.value = 1200;
+  mid.Q.value = 0.7;
+
+  const high = ctx.createBiquadFilter();
+  high.type = 'highpass';
+  high.frequency.value = 4000;
+
+  [low, mid, high].forEach((filter, i) => {
+    source.connect(filter);
+    filter.connect(merger, 0, i);
+  });
+  merger.connect(ctx.destination);
+
+  source.start();
+  return ctx.startRendering();
+};
+
+// --- ANALYSIS ---
+
+// Sample a per-frame envelope at a fractional frame position
+const sampleEnvelope = (env: Float32Array, frame: number): number => {
+  const i = Math.floor(frame);
+  if (i < 0 || i + 1 >= env.length) return 0;
+  const t = frame - i;
+  return env[i] * (1 - t) + env[i + 1] * t;
+};
+
+const estimateTempo = (flux: Float32Array, frameRate: number): { bpm: number; offset: number } => {
+  // 1. Coarse estimate: autocorrelation over the allowed lag range,
+  // weighted towards ~120 BPM to avoid half/double tempo picks
+  const minLag = Math.floor((60 / MAX_BPM) * frameRate);
+  const maxLag = Math.ceil((60 / MIN_BPM) * frameRate);
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < flux.length; i++) sum += flux[i] * flux[i - lag];
+    const bpm = (60 * frameRate) / lag;
+    const weight = Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120) / 0.6, 2));
+    const score = sum * weight;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // 2. Fine search: comb over the whole song, scanning BPM and beat phase together.
+  // Integer lags are too coarse (a few BPM at this frame rate) and would drift over a full song.
+  const coarseBpm = (60 * frameRate) / bestLag;
+  let bpm = coarseBpm;
+  let offset = 0;
+  bestScore = -Infinity;
+
+  for (let candidate = coarseBpm - 3; candidate <= coarseBpm + 3; candidate += 0.05) {
+    const period = (60 / candidate) * frameRate;
+    for (let phase = 0; phase < period; phase += 0.5) {
+      let sum = 0;
+      let count = 0;
+      for (let f = phase; f < flux.length; f += period) {
+        sum += sampleEnvelope(flux, f);
+        count++;
+      }
+      const score = count > 0 ? sum / count : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        bpm = candidate;
+        offset = phase / frameRate;
+      }
+    }
+  }
+
+  // Most music sits on whole BPM values; snap when we are close
+  const rounded = Math.round(bpm);
+  if (Math.abs(rounded - bpm) < 0.15) bpm = rounded;
+
+  return { bpm, offset };
+};
+
+export const analyzeAudio = async (buffer: AudioBuffer): Promise<AudioAnalysis> => {
+  const bands = await renderBands(buffer);
+  const frameRate = ANALYSIS_SAMPLE_RATE / HOP_SIZE;
+  const frameCount = Math.floor(bands.length / HOP_SIZE);
+
+  const bandData = [0, 1, 2].map(c => bands.getChannelData(c));
+  const bandEnergy = bandData.map(() => new Float32Array(frameCount));
+  const energy = new Float32Array(frameCount);
+
+  // Per-frame log RMS per band
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * HOP_SIZE;
+    let total = 0;
+    for (let b = 0; b < 3; b++) {
+      const data = bandData[b];
+      let sum = 0;
+      for (let i = start; i < start + HOP_SIZE; i++) sum += data[i] * data[i];
+      const rms = Math.sqrt(sum / HOP_SIZE);
+      bandEnergy[b][f] = Math.log1p(100 * rms);
+      total += rms;
+    }
+    energy[f] = total;
+  }
+
+  // Onset envelope: half-wave rectified energy increase, summed over bands
+  const flux = new Float32Array(frameCount);
+  const dominantBand = new Uint8Array(frameCount);
+  for (let f = 1; f < frameCount; f++) {
+    let best = 0;
+    for (let b = 0; b < 3; b++) {
+      const rise = Math.max(0, bandEnergy[b][f] - bandEnergy[b][f - 1]);
+      flux[f] += rise;
+      if (rise > best) {
+        best = rise;
+        dominantBand[f] = b;
+      }
+    }
+  }
+
+  // Normalize energy with a smoothed envelope (~0.5s) so it reflects sections, not single hits
+  const smoothWindow = Math.round(frameRate * 0.5);
+  const smoothed = new Float32Array(frameCount);
+  let running = 0;
+  let maxEnergy = 0;
+  for (let f = 0; f < frameCount; f++) {
+    running += energy[f];
+    if (f >= smoothWindow) running -= energy[f - smoothWindow];
+    smoothed[f] = running / Math.min(f + 1, smoothWindow);
+    maxEnergy = Math.max(maxEnergy, smoothed[f]);
+  }
+  if (maxEnergy > 0) {
+    for (let f = 0; f < frameCount; f++) smoothed[f] /= maxEnergy;
+  }
+
+  const { bpm, offset } = estimateTempo(flux, frameRate);
+
+  // Peak picking with an adaptive threshold (local mean + margin)
+  const onsets: Onset[] = [];
+  const window = Math.round(frameRate * 0.15);
+  let maxFlux = 0;
+  for (let f = 0; f < frameCount; f++) maxFlux = Math.max(maxFlux, flux[f]);
+
+  for (let f = 1; f < frameCount - 1; f++) {
+    if (flux[f] <= flux[f - 1] || flux[f] < flux[f + 1]) continue;
+
+    let localSum = 0;
+    let n = 0;
+    for (let k = Math.max(0, f - window); k <= Math.min(frameCount - 1, f + window); k++) {
+      localSum += flux[k];
+      n++;
+    }
+    const threshold = (localSum / n) * 1.3 + maxFlux * 0.05;
+    if (flux[f] < threshold) continue;
+
+    const time = f / frameRate;
+    const strength = maxFlux > 0 ? flux[f] / maxFlux : 0;
+    const last = onsets[onsets.length - 1];
+    if (last && time - last.time < MIN_ONSET_GAP) {
+      // Keep the stronger of two onsets that are too close together
+      if (strength > last.strength) onsets[onsets.length - 1] = { time, strength, band: dominantBand[f] };
+      continue;
+    }
+    onsets.push({ time, strength, band: dominantBand[f] });
+  }
+
+  return { duration: buffer.duration, bpm, beatOffset: offset, onsets, energy: smoothed, frameRate };
+};
+
+// --- CHART GENERATION ---
+
+interface DensityProfile {
+  subdivision: number;  // Grid resolution in beats
+  minGapBeats: number;  // Minimum spacing between consecutive notes
+  threshold: number;    // Onset strength needed at zero energy
+  allowDoubles: boolean;
+  useLayers: boolean;
+  directional: boolean; // Arrows alternating forehand/backhand, otherwise dots
+  diagonals: boolean;
+  bombs: boolean;       // Flank doubles with bombs on the outer lanes
+}
+
+const DENSITY: Record<Difficulty, DensityProfile> = {
+  [Difficulty.EASY]: { subdivision: 1, minGapBeats: 2, threshold: 0.35, allowDoubles: false, useLayers: false, directional: false, diagonals: false, bombs: false },
+  [Difficulty.MEDIUM]: { subdivision: 0.5, minGapBeats: 1, threshold: 0.25, allowDoubles: true, useLayers: false, directional: true, diagonals: false, bombs: false },
+  [Difficulty.HARD]: { subdivision: 0.5, minGapBeats: 0.5, threshold: 0.15, allowDoubles: true, useLayers: true, directional: true, diagonals: true, bombs: true }
+};
+
+// The detected tempo is steady, with beat 0 on the first detected beat
+export const tempoOf = (analysis: AudioAnalysis): TempoMap => constantTempo(analysis.bpm, analysis.beatOffset);
+
+export const generateChartFromAnalysis = (analysis: AudioAnalysis, difficulty: Difficulty): NoteData[] => {
+  const profile = DENSITY[difficulty];
+  const tempo = tempoOf(analysis);
+  const notes: NoteData[] = [];
+  let idCount = 0;
+
+  // Quantize onsets to the beat grid, keeping the strongest per slot
+  const slots = new Map<number, Onset>();
+  for (const onset of analysis.onsets) {
+    const beat = secondsToBeat(tempo, onset.time);
+    const slot = Math.round(beat / profile.subdivision);
+    const existing = slots.get(slot);
+    if (!existing || onset.strength > existing.strength) slots.set(slot, onset);
+  }
+
+  let lastBeat = -Infinity;
+  let isLeft = true;
+  const swing = createSwingPattern();
+  const directionFor = (hand: HandType, lineIndex: number) =>
+    profile.directional ? swing(hand, lineIndex, profile.diagonals) : CutDirection.ANY;
+
+  for (const slot of [...slots.keys()].sort((a, b) => a - b)) {
+    const onset = slots.get(slot)!;
+    const beat = slot * profile.subdivision;
+    const time = beatToSeconds(tempo, beat);
+    if (time < FIRST_NOTE_TIME || time > analysis.duration - 0.5) continue;
+    if (beat - lastBeat < profile.minGapBeats) continue;
+
+    // Louder sections lower the bar, so density follows the music's energy
+    const energy = analysis.energy[Math.min(analysis.energy.length - 1, Math.floor(onset.time * analysis.frameRate))] || 0;
+    if (onset.strength < profile.threshold * (1.5 - energy)) continue;
+
+    lastBeat = beat;
+    const lineLayer = profile.useLayers ? (onset.band === 0 ? 0 : onset.band === 2 ? 2 : 1) : 0;
+
+    // Strong hits on a downbeat become doubles
+    if (profile.allowDoubles && onset.strength > 0.75 && Number.isInteger(beat)) {
+      notes.push(
+        { id: `note-${idCount++}`, time, lineIndex: 1, lineLayer, type: 'left', cutDirection: directionFor('left', 1) },
+        { id: `note-${idCount++}`, time, lineIndex: 2, lineLayer, type: 'right', cutDirection: directionFor('right', 2) }
+      );
+      if (profile.bombs) {
+        notes.push(
+          { id: `note-${idCount++}`, time, lineIndex: 0, lineLayer, type: 'bomb', cutDirection: CutDirection.ANY },
+          { id: `note-${idCount++}`, time, lineIndex: 3, lineLayer, type: 'bomb', cutDirection: CutDirection.ANY }
+        );
+      }
+      continue;
+    }
+
+    // Alternate hands; low hits stay in the inner lanes, others go wide
+    const inner = onset.band === 0 || difficulty === Difficulty.EASY;
+    const lineIndex = isLeft ? (inner ? 1 : 0) : (inner ? 2 : 3);
+    notes.push({
+      id: `note-${idCount++}`,
+      time,
+      lineIndex,
+      lineLayer,
+      type: isLeft ? 'left' : 'right',
+      cutDirection: directionFor(isLeft ? 'left' : 'right', lineIndex)
+    });
+    isLeft = !isLeft;
+  }
+
+  return notes.sort((a, b) => a.time - b.time);
+};
+
+export const generateChartsFromAudio = async (file: Blob): Promise<{ analysis: AudioAnalysis; charts: Record<Difficulty, NoteData[]> }> => {
+  const buffer = await decodeAudioFile(file);
+  const analysis = await analyzeAudio(buffer);
+  const charts = {
+    [Difficulty.EASY]: generateChartFromAnalysis(analysis, Difficulty.EASY),
+    [Difficulty.MEDIUM]: generateChartFromAnalysis(analysis, Difficulty.MEDIUM),
+    [Difficulty.HARD]: generateChartFromAnalysis(analysis, Difficulty.HARD)
+  };
+  return { analysis, charts };
+};
@@ -0,0 +1,359 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CutDirection, HandType, NoteData, NoteType, ObstacleData, TempoChange, TempoMap, TimeSignature } from '../types';
+import { SONG_BPM } from '../constants';
+import { beatToSeconds, constantTempo, createTempoMap, secondsToBeat } from './tempoMap';
+
+// Beat Saber style beatmap import/export.
+// Supports v2 difficulty files (`_notes`) and v3 (`colorNotes`). Times are stored
+// in beats in the file, and converted to seconds through the map's tempo: BPM changes
+// (v3 `bpmEvents`, v2 `_BPMChanges` or type 100 events) on top of the song's BPM.
+
+export type BeatmapVersion = 'v2' | 'v3';
+
+interface V2Note {
+  _time: number;
+  _lineIndex: number;
+  _lineLayer: number;
+  _type: number;
+  _cutDirection: number;
+}
+
+interface V2Obstacle {
+  _time: number;
+  _lineIndex: number;
+  _type: number; // 0: full height, 1: crouch
+  _duration: number;
+  _width: number;
+}
+
+interface V3Obstacle {
+  b: number;
+  x: number;
+  y: number;
+  d: number;
+  w: number;
+  h: number;
+}
+
+interface V3BombNote {
+  b: number;
+  x: number;
+  y: number;
+}
+
+interface V3ColorNote {
+  b: number;
+  x: number;
+  y: number;
+  c: number;
+  d: number;
+  a?: number;
+}
+
+interface V2BpmChange {
+  _time: number;
+  _BPM?: number;
+  _bpm?: number; // Some editors write it lowercase
+  _beatsPerBar?: number;
+}
+
+interface V3BpmEvent {
+  b: number;
+  m: number;
+}
+
+// Tempo written by serializeBeatmap. Meters have no standard field, so they only live here.
+interface TempoCustomData {
+  bpm?: number;
+  offset?: number;
+  timeSignatures?: TimeSignature[];
+}
+
+export interface V2Beatmap {
+  _version: string;
+  _notes: V2Note[];
+  _obstacles: V2Obstacle[];
+  _events: unknown[];
+  _customData?: TempoCustomData & { _BPMChanges?: V2BpmChange[] };
+}
+
+export interface V3Beatmap {
+  version: string;
+  colorNotes: V3ColorNote[];
+  bombNotes: V3BombNote[];
+  obstacles: V3Obstacle[];
+  bpmEvents?: V3BpmEvent[];
+  customData?: TempoCustomData;
+}
+
+// v2 event type that changes the BPM to its `_floatValue`
+const V2_BPM_EVENT_TYPE = 100;
+
+// Grid limits shared with LANE_X_POSITIONS / LAYER_Y_POSITIONS
+const MAX_LINE_INDEX = 3;
+const MAX_LINE_LAYER = 2;
+
+// Beat Saber note colors: 0 = red (left saber), 1 = blue (right saber)
+const COLOR_TO_HAND: Record<number, HandType> = { 0: 'left', 1: 'right' };
+// v2 stores bombs in `_notes` with this type; v3 has a separate `bombNotes` list
+const V2_BOMB_TYPE = 3;
+
+const toV2Type = (type: NoteType): number => type === 'bomb' ? V2_BOMB_TYPE : type === 'left' ? 0 : 1;
+
+// v2 walls only come in two shapes
+const V2_FULL_WALL = { lineLayer: 0, height: 5 };
+const V2_CROUCH_WALL = { lineLayer: 2, height: 3 };
+const MAX_WALL_HEIGHT = 5;
+
+// CutDirection uses Beat Saber's numbering (0-7 arrows, 8 dot), so directions map 1:1
+const BEATMAP_ANY_DIRECTION = CutDirection.ANY;
+
+// Files are read as untyped JSON: objects become field maps, and fields are checked as they are read
+type Fields = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Fields => typeof v === 'object' && v !== null;
+const fieldsOf = (v: unknown): Fields => isObject(v) ? v : {};
+// Entries of a list the file may leave out
+const listOf = (v: unknown): Fields[] => Array.isArray(v) ? v.map(fieldsOf) : [];
+// A number field; anything else reads as NaN, which validation rejects
+const numberOf = (v: unknown) => typeof v === 'number' ? v : NaN;
+
+const isInteger = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v);
+
+// Check a note's fields, returning them typed
+const readNote = (index: number, lineIndex: unknown, lineLayer: unknown, color: unknown, direction: unknown, beat: unknown) => {
+  if (typeof beat !== 'number' || !isFinite(beat) || beat < 0) {
+    throw new Error(`Note ${index}: invalid beat time ${beat}`);
+  }
+  if (!isInteger(lineIndex) || lineIndex < 0 || lineIndex > MAX_LINE_INDEX) {
+    throw new Error(`Note ${index}: lineIndex ${lineIndex} out of range 0-${MAX_LINE_INDEX}`);
+  }
+  if (!isInteger(lineLayer) || lineLayer < 0 || lineLayer > MAX_LINE_LAYER) {
+    throw new Error(`Note ${index}: lineLayer ${lineLayer} out of range 0-${MAX_LINE_LAYER}`);
+  }
+  if (!isInteger(direction) || direction < 0 || direction > BEATMAP_ANY_DIRECTION) {
+    throw new Error(`Note ${index}: cutDirection ${direction} out of range 0-${BEATMAP_ANY_DIRECTION}`);
+  }
+  if (!isInteger(color) || !(color in COLOR_TO_HAND || color === V2_BOMB_TYPE)) {
+    throw new Error(`Note ${index}: unsupported note type ${color}`);
+  }
+  return { beat, lineIndex, lineLayer, color, direction: direction as CutDirection };
+};
+
+const validateObstacle = (index: number, o: Omit<ObstacleData, 'id'>) => {
+  if (!isFinite(o.time) || o.time < 0 || !(o.duration > 0)) {
+    throw new Error(`Obstacle ${index}: invalid time ${o.time} or duration ${o.duration}`);
+  }
+  if (!isInteger(o.lineIndex) || !isInteger(o.width) || o.lineIndex < 0 || o.width < 1 || o.lineIndex + o.width > MAX_LINE_INDEX + 1) {
+    throw new Error(`Obstacle ${index}: lanes ${o.lineIndex}+${o.width} outside 0-${MAX_LINE_INDEX}`);
+  }
+  if (!isInteger(o.lineLayer) || !isInteger(o.height) || o.lineLayer < 0 || o.lineLayer > MAX_LINE_LAYER || o.height < 1 || o.height > MAX_WALL_HEIGHT) {
+    throw new Error(`Obstacle ${index}: layer ${o.lineLayer} / height ${o.height} out of range`);
+  }
+};
+
+export const detectBeatmapVersion = (data: unknown): BeatmapVersion => {
+  if (isObject(data) && Array.isArray(data.colorNotes)) return 'v3';
+  if (isObject(data) && Array.isArray(data._notes)) return 'v2';
+  throw new Error('Unrecognised beatmap: expected "colorNotes" (v3) or "_notes" (v2)');
+};
+
+// Tempo custom data (see TempoCustomData) of either version
+const customDataOf = (data: Fields, version: BeatmapVersion) => fieldsOf(version === 'v3' ? data.customData : data._customData);
+
+// v2 BPM changes, at the top level or in custom data depending on the editor
+const v2BpmChanges = (data: Fields) => data._BPMChanges ?? fieldsOf(data._customData)._BPMChanges;
+
+// A change without a BPM reads as NaN, which readBeatmap rejects
+const readTempoChanges = (data: Fields, version: BeatmapVersion): TempoChange[] => {
+  if (version === 'v3') {
+    return listOf(data.bpmEvents).map(e => ({ beat: numberOf(e.b), bpm: numberOf(e.m) }));
+  }
+  const changes = v2BpmChanges(data);
+  if (changes) return listOf(changes).map(c => ({ beat: numberOf(c._time), bpm: numberOf(c._BPM ?? c._bpm) }));
+  return listOf(data._events)
+    .filter(e => e._type === V2_BPM_EVENT_TYPE)
+    .map(e => ({ beat: numberOf(e._time), bpm: numberOf(e._floatValue) }));
+};
+
+// Invalid meters read as NaN and are dropped by createTempoMap
+const readTimeSignatures = (data: Fields, version: BeatmapVersion): TimeSignature[] => {
+  const custom = customDataOf(data, version);
+  if (Array.isArray(custom.timeSignatures)) {
+    return listOf(custom.timeSignatures).map(t => ({ beat: numberOf(t.beat), numerator: numberOf(t.numerator), denominator: numberOf(t.denominator) }));
+  }
+  // Editors that write _BPMChanges note the meter on them
+  return listOf(version === 'v2' ? v2BpmChanges(data) : [])
+    .filter(c => c._beatsPerBar !== undefined)
+    .map(c => ({ beat: numberOf(c._time), numerator: numberOf(c._beatsPerBar), denominator: 4 }));
+};
+
+// Shared parsing preamble: JSON, version and the tempo map beats are converted with.
+// A file without tempo information of its own follows the song's tempo; one with it
+// (BPM changes, or the BPM serializeBeatmap stores) is built on the song's BPM.
+const readBeatmap = (input: string | object, tempo: TempoMap) => {
+  const parsed: unknown = typeof input === 'string' ? JSON.parse(input) : input;
+  const version = detectBeatmapVersion(parsed);
+  const data = fieldsOf(parsed);
+
+  const custom = customDataOf(data, version);
+  const mapBpm = custom.bpm ?? tempo.tempos[0].bpm;
+  if (typeof mapBpm !== 'number' || !(mapBpm > 0)) {
+    throw new Error(`Invalid BPM: ${mapBpm}`);
+  }
+  const changes = readTempoChanges(data, version);
+  if (changes.some(c => typeof c.bpm !== 'number' || !(c.bpm > 0))) {
+    throw new Error('Invalid BPM change');
+  }
+  const signatures = readTimeSignatures(data, version);
+
+  const ownTempo = custom.bpm !== undefined || changes.length > 0 || signatures.length > 0;
+  const map = ownTempo
+    ? createTempoMap(mapBpm, changes, signatures, typeof custom.offset === 'number' ? custom.offset : tempo.offset)
+    : tempo;
+  const toSeconds = (beat: number) => beatToSeconds(map, beat);
+  return { data, version, tempo: map, toSeconds };
+};
+
+// The tempo map a beatmap's beats follow
+export const parseBeatmapTempo = (input: string | object, tempo: TempoMap = constantTempo(SONG_BPM)): TempoMap =>
+  readBeatmap(input, tempo).tempo;
+
+// Parse a beatmap (object or JSON text) into a time-sorted chart.
+export const parseBeatmap = (input: string | object, tempo: TempoMap = constantTempo(SONG_BPM)): NoteData[] => {
+  const { data, version, toSeconds } = readBeatmap(input, tempo);
+
+  const notes: NoteData[] = [];
+
+  if (version === 'v3') {
+    listOf(data.colorNotes).forEach((n, i) => {
+      const note = readNote(i, n.x, n.y, n.c, n.d, n.b);
+      notes.push({
+        id: `note-${i}`,
+        time: toSeconds(note.beat),
+        lineIndex: note.lineIndex,
+        lineLayer: note.lineLayer,
+        type: COLOR_TO_HAND[note.color],
+        cutDirection: note.direction
+      });
+    });
+    listOf(data.bombNotes).forEach((n, i) => {
+      const bomb = readNote(i, n.x, n.y, V2_BOMB_TYPE, CutDirection.ANY, n.b);
+      notes.push({
+        id: `bomb-${i}`,
+        time: toSeconds(bomb.beat),
+        lineIndex: bomb.lineIndex,
+        lineLayer: bomb.lineLayer,
+        type: 'bomb',
+        cutDirection: CutDirection.ANY
+      });
+    });
+  } else {
+    listOf(data._notes).forEach((n, i) => {
+      const isBomb = n._type === V2_BOMB_TYPE;
+      // Bombs have no direction; editors often leave junk in that field
+      const note = readNote(i, n._lineIndex, n._lineLayer, n._type, isBomb ? CutDirection.ANY : n._cutDirection, n._time);
+      notes.push({
+        id: `note-${i}`,
+        time: toSeconds(note.beat),
+        lineIndex: note.lineIndex,
+        lineLayer: note.lineLayer,
+        type: isBomb ? 'bomb' : COLOR_TO_HAND[note.color],
+        cutDirection: note.direction
+      });
+    });
+  }
+
+  return notes.sort((a, b) => a.time - b.time);
+};
+
+// Parse the walls of a beatmap, time-sorted.
+export const parseBeatmapObstacles = (input: string | object, tempo: TempoMap = constantTempo(SONG_BPM)): ObstacleData[] => {
+  const { data, version, toSeconds } = readBeatmap(input, tempo);
+  const obstacles: ObstacleData[] = [];
+
+  if (version === 'v3') {
+    listOf(data.obstacles).forEach((o, i) => {
+      const beat = numberOf(o.b);
+      const wall = { time: toSeconds(beat), duration: toSeconds(beat + numberOf(o.d)) - toSeconds(beat), lineIndex: numberOf(o.x), width: numberOf(o.w), lineLayer: numberOf(o.y), height: numberOf(o.h) };
+      validateObstacle(i, wall);
+      obstacles.push({ id: `wall-${i}`, ...wall });
+    });
+  } else {
+    listOf(data._obstacles).forEach((o, i) => {
+      const shape = o._type === 1 ? V2_CROUCH_WALL : V2_FULL_WALL;
+      const beat = numberOf(o._time);
+      const wall = { time: toSeconds(beat), duration: toSeconds(beat + numberOf(o._duration)) - toSeconds(beat), lineIndex: numberOf(o._lineIndex), width: numberOf(o._width), ...shape };
+      validateObstacle(i, wall);
+      obstacles.push({ id: `wall-${i}`, ...wall });
+    });
+  }
+
+  return obstacles.sort((a, b) => a.time - b.time);
+};
+
+// Write a chart back out as a beatmap. Runtime flags (hit/missed) are dropped.
+// v2 can only express full-height and crouch walls; other shapes are approximated.
+export const serializeBeatmap = (chart: NoteData[], tempo: TempoMap = constantTempo(SONG_BPM), version: BeatmapVersion = 'v3', obstacles: ObstacleData[] = []): V2Beatmap | V3Beatmap => {
+  // Round to 1/1000 beat to keep files readable without drifting off the grid
+  const toBeat = (time: number) => Math.round(secondsToBeat(tempo, time) * 1000) / 1000;
+  const sorted = [...chart].sort((a, b) => a.time - b.time);
+  const customData: TempoCustomData = {
+    bpm: tempo.tempos[0].bpm,
+    ...(tempo.offset !== 0 && { offset: tempo.offset }),
+    ...(tempo.signatures.length > 1 || tempo.signatures[0].numerator !== 4 || tempo.signatures[0].denominator !== 4 ? { timeSignatures: tempo.signatures } : {})
+  };
+  const changes = tempo.tempos.slice(1);
+
+  if (version === 'v2') {
+    return {
+      _version: '2.6.0',
+      _notes: sorted.map(n => ({
+        _time: toBeat(n.time),
+        _lineIndex: n.lineIndex,
+        _lineLayer: n.lineLayer,
+        _type: toV2Type(n.type),
+        _cutDirection: n.cutDirection
+      })),
+      _obstacles: obstacles.map(o => ({
+        _time: toBeat(o.time),
+        _lineIndex: o.lineIndex,
+        _type: o.lineLayer === 0 ? 0 : 1,
+        _duration: toBeat(o.time + o.duration) - toBeat(o.time),
+        _width: o.width
+      })),
+      _events: [],
+      _customData: {
+        ...customData,
+        ...(changes.length > 0 && { _BPMChanges: changes.map(c => ({ _time: c.beat, _BPM: c.bpm })) })
+      }
+    };
+  }
+
+  return {
+    version: '3.3.0',
+    colorNotes: sorted.filter(n => n.type !== 'bomb').map(n => ({
+      b: toBeat(n.time),
+      x: n.lineIndex,
+      y: n.lineLayer,
+      c: n.type === 'left' ? 0 : 1,
+      d: n.cutDirection,
+      a: 0
+    })),
+    bombNotes: sorted.filter(n => n.type === 'bomb').map(n => ({ b: toBeat(n.time), x: n.lineIndex, y: n.lineLayer })),
+    obstacles: obstacles.map(o => ({
+      b: toBeat(o.time),
+      x: o.lineIndex,
+      y: o.lineLayer,
+      d: toBeat(o.time + o.duration) - toBeat(o.time),
+      w: o.width,
+      h: o.height
+    })),
+    ...(changes.length > 0 && { bpmEvents: changes.map(c => ({ b: c.beat, m: c.bpm })) }),
+    customData
+  };
+};
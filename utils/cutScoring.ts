@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { CutOutcome, CutScore, HandType } from '../types';
+
+// Precision cut scoring, modelled on Beat Saber:
+//  - pre-swing:  how much arc the hand travelled into the note   (0-70)
+//  - post-swing: follow-through after contact                     (0-30)
+//  - accuracy:   how close the swing passed to the note center    (0-15)
+
+export const MAX_PRE_SWING = 70;
+export const MAX_POST_SWING = 30;
+export const MAX_ACCURACY = 15;
+export const MAX_CUT_SCORE = MAX_PRE_SWING + MAX_POST_SWING + MAX_ACCURACY;
+
+// Swing measurement windows (seconds) and the distance (world units) that earns full marks
+export const PRE_SWING_WINDOW = 0.25;
+export const POST_SWING_WINDOW = 0.15;
+const PRE_SWING_FULL_DISTANCE = 1.2;
+const POST_SWING_FULL_DISTANCE = 0.5;
+// Distance from the note center at which accuracy drops to zero
+const ACCURACY_RADIUS = 0.8;
+
+const HISTORY_MAX_AGE = 1.0;
+
+interface MotionSample {
+  time: number;
+  position: THREE.Vector3;
+}
+
+// Per-hand position history, kept across frames so swings can be measured
+// before and after the moment of contact.
+export const createMotionHistory = () => {
+  const samples: Record<HandType, MotionSample[]> = { left: [], right: [] };
+
+  const push = (hand: HandType, time: number, position: THREE.Vector3 | null) => {
+    const list = samples[hand];
+    // A lost hand breaks the swing; start a fresh history when it returns
+    if (!position) {
+      list.length = 0;
+      return;
+    }
+    list.push({ time, position: position.clone() });
+    while (list.length > 0 && time - list[0].time > HISTORY_MAX_AGE) list.shift();
+  };
+
+  const clear = () => {
+    samples.left.length = 0;
+    samples.right.length = 0;
+  };
+
+  return { push, clear, get: (hand: HandType) => samples[hand] };
+};
+
+export type MotionHistory = ReturnType<typeof createMotionHistory>;
+
+// Path length between two times, counting only movement along `direction` (if given)
+const pathLength = (list: MotionSample[], from: number, to: number, direction: THREE.Vector3 | null) => {
+  let length = 0;
+  const step = new THREE.Vector3();
+  for (let i = 1; i < list.length; i++) {
+    const a = list[i - 1];
+    const b = list[i];
+    if (b.time <= from || a.time > to) continue;
+    step.subVectors(b.position, a.position);
+    step.z = 0; // Swings are judged in the screen plane
+    length += direction ? Math.max(0, step.dot(direction)) : step.length();
+  }
+  return length;
+};
+
+// Unit swing direction in the screen plane over the pre-swing window
+export const swingDirection = (list: MotionSample[], contactTime: number): THREE.Vector3 | null => {
+  const recent = list.filter(s => s.time >= contactTime - PRE_SWING_WINDOW && s.time <= contactTime);
+  if (recent.length < 2) return null;
+  const dir = new THREE.Vector3().subVectors(recent[recent.length - 1].position, recent[0].position);
+  dir.z = 0;
+  return dir.lengthSq() > 1e-6 ? dir.normalize() : null;
+};
+
+export const scorePreSwing = (list: MotionSample[], contactTime: number, direction: THREE.Vector3 | null) => {
+  const length = pathLength(list, contactTime - PRE_SWING_WINDOW, contactTime, direction);
+  return Math.round(Math.min(1, length / PRE_SWING_FULL_DISTANCE) * MAX_PRE_SWING);
+};
+
+export const scorePostSwing = (list: MotionSample[], contactTime: number, direction: THREE.Vector3 | null) => {
+  const length = pathLength(list, contactTime, contactTime + POST_SWING_WINDOW, direction);
+  return Math.round(Math.min(1, length / POST_SWING_FULL_DISTANCE) * MAX_POST_SWING);
+};
+
+// Perpendicular distance from the note center to the swing line through the contact point
+export const scoreAccuracy = (contact: THREE.Vector3, noteCenter: THREE.Vector3, direction: THREE.Vector3 | null) => {
+  const offset = new THREE.Vector3(noteCenter.x - contact.x, noteCenter.y - contact.y, 0);
+  let distance = offset.length();
+  if (direction) {
+    distance = Math.abs(offset.x * direction.y - offset.y * direction.x);
+  }
+  return Math.round(Math.max(0, 1 - distance / ACCURACY_RADIUS) * MAX_ACCURACY);
+};
+
+export const buildCutScore = (hand: HandType, outcome: CutOutcome, speed: number, timing: number, preSwing: number, postSwing: number, accuracy: number): CutScore => ({
+  hand,
+  outcome,
+  speed,
+  timing,
+  preSwing,
+  postSwing,
+  accuracy,
+  // Cutting against the arrow earns nothing
+  total: outcome === CutOutcome.WRONG_DIRECTION ? 0 : preSwing + postSwing + accuracy
+});
+
+export const getJudgment = (cut: CutScore): string => {
+  if (cut.outcome === CutOutcome.WRONG_DIRECTION) return 'WRONG WAY';
+  if (cut.total >= 110) return 'PERFECT';
+  if (cut.total >= 100) return 'GREAT';
+  if (cut.total >= 80) return 'GOOD';
+  if (cut.outcome === CutOutcome.WEAK) return 'WEAK';
+  return 'OK';
+};
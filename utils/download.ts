@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Trigger a browser download for generated content (charts, replays, exports).
+export const downloadFile = (filename: string, content: string, mimeType = 'application/json') => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadJson = (filename: string, data: unknown) => {
+  downloadFile(filename, JSON.stringify(data, null, 2), 'application/json');
+};
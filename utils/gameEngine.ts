@@ -0,0 +1,360 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { CutDirection, CutOutcome, CutScore, HandType, NoteData, NoteSlice, ObstacleData, ReplayFrame } from '../types';
+import { PLAYER_Z, SPAWN_Z, MISS_Z, DIRECTION_VECTORS, LANE_X_POSITIONS, LAYER_Y_POSITIONS, MIN_CUT_SPEED, MIN_DIRECTION_DOT, NOTE_SIZE, BOMB_HIT_RADIUS, BLADE_HIT_PADDING, BLADE_BOMB_HIT_RADIUS, SABER_LENGTH, HEAD_RADIUS, WALL_DAMAGE_PER_SECOND, getObstacleBounds } from '../constants';
+import { createMotionHistory, swingDirection, scorePreSwing, scorePostSwing, scoreAccuracy, buildCutScore, POST_SWING_WINDOW } from './cutScoring';
+
+// Gameplay simulation: spawning, misses, note/bomb collisions, cut judgement and walls.
+// It has no React or WebGL dependencies, so a whole song can be driven from synthetic
+// frames in Node. GameScene feeds it one frame per render and reacts to the events.
+
+export type EngineEvent =
+  // A blade touched a note. Its score follows as a 'hit' once the follow-through is measured.
+  | { type: 'contact'; note: NoteData; outcome: CutOutcome }
+  | { type: 'hit'; note: NoteData; cut: CutScore; position: [number, number, number] }
+  | { type: 'miss'; note: NoteData }
+  | { type: 'bomb'; note: NoteData }
+  // Emitted every step the head is inside a wall
+  | { type: 'wall'; obstacle: ObstacleData; damage: number };
+
+export interface GameEngineOptions {
+  chart: NoteData[];
+  obstacles: ObstacleData[];
+  noteSpeed: number;
+  inputOffset?: number; // Seconds hand positions lag behind the real hand
+}
+
+// A cut waiting for its follow-through to be measured
+interface PendingCut {
+  note: NoteData;
+  hand: HandType;
+  outcome: CutOutcome;
+  speed: number;
+  timing: number;
+  contactClock: number; // Frame clock at contact (motion history time base)
+  direction: THREE.Vector3 | null;
+  preSwing: number;
+  accuracy: number;
+  position: [number, number, number];
+}
+
+// Note box padding for inputs without a blade direction, which collide with the hand point only
+const POINT_HIT_PADDING = 0.55;
+// Longest move (world units) between collision samples of a sweep, well under a note's size
+const SWEEP_STEP = 0.1;
+// A saber jumping further than this in one step was lost by tracking, not swung
+const MAX_SWEEP_DISTANCE = 3;
+// Song time stepping back further than this is a rewind; less is audio clock jitter
+const REWIND_THRESHOLD = 0.05;
+
+// Swing assumed for a slice when neither the hand nor the note gives one
+const DOWN = new THREE.Vector3(0, -1, 0);
+
+// Where a saber was on the previous frame
+interface BladeState {
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+}
+
+// Whether segment a-b passes through the axis-aligned cube at `center` (slab test)
+const segmentHitsBox = (a: THREE.Vector3, b: THREE.Vector3, center: THREE.Vector3, halfSize: number) => {
+  let tMin = 0;
+  let tMax = 1;
+  for (const axis of ['x', 'y', 'z'] as const) {
+    const d = b[axis] - a[axis];
+    const min = center[axis] - halfSize - a[axis];
+    const max = center[axis] + halfSize - a[axis];
+    if (Math.abs(d) < 1e-9) {
+      if (min > 0 || max < 0) return false;
+      continue;
+    }
+    const t1 = min / d;
+    const t2 = max / d;
+    tMin = Math.max(tMin, Math.min(t1, t2));
+    tMax = Math.min(tMax, Math.max(t1, t2));
+    if (tMin > tMax) return false;
+  }
+  return true;
+};
+
+// Z of something due at `targetTime`, at song time `time`
+export const trackZ = (targetTime: number, time: number, noteSpeed: number) => PLAYER_Z - ((targetTime - time) * noteSpeed);
+
+export const createGameEngine = ({ chart, obstacles, noteSpeed, inputOffset = 0 }: GameEngineOptions) => {
+  // Fresh note objects we can mutate (hit/missed flags) without touching the chart
+  const notes: NoteData[] = chart.map(n => ({ ...n }));
+  const activeNotes: NoteData[] = [];
+  let nextNoteIndex = 0;
+  let pendingCuts: PendingCut[] = [];
+  // Song time of the previous step, and the furthest one judged since the last seek
+  let lastTime = -Infinity;
+  let furthestTime = 0;
+
+  // Per-hand motion history for swing scoring
+  const motionHistory = createMotionHistory();
+
+  // Each saber on the previous step, the start of this step's sweep
+  const lastBlades: Record<HandType, BladeState | null> = { left: null, right: null };
+
+  // Scratch objects to avoid GC
+  const notePos = new THREE.Vector3();
+  const swingDir = new THREE.Vector3();
+  const contact = new THREE.Vector3();
+  const blade = new THREE.Line3();
+  const bladeAxis = new THREE.Vector3();
+  const cutNormal = new THREE.Vector3();
+
+  // A saber as a segment: the whole blade when its direction is known, otherwise
+  // just the hand point
+  const bladeOf = (handPos: THREE.Vector3 | null, direction: THREE.Vector3 | null): BladeState | null => {
+    if (!handPos) return null;
+    const end = direction ? handPos.clone().addScaledVector(direction, SABER_LENGTH) : handPos.clone();
+    return { start: handPos.clone(), end };
+  };
+
+  // Whether `hand`'s saber passed through the box of something due at `targetTime` in
+  // lane position x/y, anywhere between the previous step and this one. The saber and
+  // the note both move, so the step is sampled finely enough that neither can skip past
+  // the other. On a hit, `blade` and `notePos` hold where both were at the touch.
+  const sweepHits = (hand: HandType, to: BladeState, x: number, y: number, targetTime: number, judgeTime: number, delta: number, halfSize: number) => {
+    const zNow = trackZ(targetTime, judgeTime, noteSpeed);
+    const zBefore = trackZ(targetTime, judgeTime - delta, noteSpeed);
+    const last = lastBlades[hand];
+    const bladeTravel = last ? Math.max(last.start.distanceTo(to.start), last.end.distanceTo(to.end)) : 0;
+    const from = last && bladeTravel <= MAX_SWEEP_DISTANCE ? last : null;
+    const samples = from ? Math.max(1, Math.ceil((bladeTravel + Math.abs(zNow - zBefore)) / SWEEP_STEP)) : 1;
+
+    for (let k = 1; k <= samples; k++) {
+      const t = k / samples;
+      if (from && samples > 1) {
+        blade.start.lerpVectors(from.start, to.start, t);
+        blade.end.lerpVectors(from.end, to.end, t);
+      } else {
+        blade.set(to.start, to.end);
+      }
+      notePos.set(x, y, THREE.MathUtils.lerp(zBefore, zNow, t));
+      if (segmentHitsBox(blade.start, blade.end, notePos, halfSize)) return true;
+    }
+    return false;
+  };
+
+  // Point of the touching blade (see sweepHits) closest to the note
+  const contactPoint = () => blade.distanceSq() < 1e-12
+    ? contact.copy(blade.start)
+    : blade.closestPointToPoint(notePos, true, contact);
+
+  // The plane a cut went through: it holds the touching blade and the swing. A hand
+  // without a blade cuts as if its blade pointed into the screen.
+  const sliceOf = (at: THREE.Vector3, velocity: THREE.Vector3, fallbackSwing: THREE.Vector3): NoteSlice => {
+    blade.delta(bladeAxis);
+    if (bladeAxis.lengthSq() < 1e-12) bladeAxis.set(0, 0, -1);
+    cutNormal.crossVectors(bladeAxis, velocity.lengthSq() > 1e-6 ? velocity : fallbackSwing);
+    if (cutNormal.lengthSq() < 1e-12) cutNormal.crossVectors(bladeAxis, fallbackSwing);
+    if (cutNormal.lengthSq() < 1e-12) cutNormal.set(1, 0, 0);
+    cutNormal.normalize();
+    return {
+      normal: [cutNormal.x, cutNormal.y, cutNormal.z],
+      point: [at.x - notePos.x, at.y - notePos.y, at.z - notePos.z],
+      swing: [velocity.x, velocity.y, velocity.z]
+    };
+  };
+
+  // Look ahead by the time it takes for a note to travel from spawn to player
+  const spawnAheadTime = Math.abs(SPAWN_Z - PLAYER_Z) / noteSpeed;
+
+  const finalizeCut = (pending: PendingCut): EngineEvent => {
+    const postSwing = scorePostSwing(motionHistory.get(pending.hand), pending.contactClock, pending.direction);
+    const cut = buildCutScore(pending.hand, pending.outcome, pending.speed, pending.timing, pending.preSwing, postSwing, pending.accuracy);
+    return { type: 'hit', note: pending.note, cut, position: pending.position };
+  };
+
+  // Score every cut still waiting on its follow-through, with as much of it as was seen.
+  // Called when the song ends or a practice loop restarts, so the last cuts still count.
+  const flush = (): EngineEvent[] => {
+    const events = pendingCuts.map(finalizeCut);
+    pendingCuts = [];
+    return events;
+  };
+
+  const step = (frame: ReplayFrame): EngineEvent[] => {
+    const { time, clock, delta, hands, head } = frame;
+    // Song time going back is a rewind (resuming from a pause): judging picks up where it
+    // stopped. Replays contain the same jump, so they take the same path.
+    const events: EngineEvent[] = time < lastTime - REWIND_THRESHOLD ? rewind() : [];
+    lastTime = time;
+    furthestTime = Math.max(furthestTime, time);
+    // Judge against when the hand actually got there, not when tracking reported it
+    const judgeTime = time - inputOffset;
+
+    // 1. Spawn Notes
+    while (nextNoteIndex < notes.length && notes[nextNoteIndex].time - spawnAheadTime <= time) {
+      activeNotes.push(notes[nextNoteIndex]);
+      nextNoteIndex++;
+    }
+
+    // 2. Update & Collide Notes
+    motionHistory.push('left', clock, hands.left);
+    motionHistory.push('right', clock, hands.right);
+    const blades: Record<HandType, BladeState | null> = {
+      left: bladeOf(hands.left, hands.leftDirection),
+      right: bladeOf(hands.right, hands.rightDirection)
+    };
+
+    // Score cuts whose follow-through window has elapsed
+    if (pendingCuts.length > 0) {
+      const ready = pendingCuts.filter(p => clock - p.contactClock >= POST_SWING_WINDOW);
+      if (ready.length > 0) {
+        pendingCuts = pendingCuts.filter(p => !ready.includes(p));
+        ready.forEach(p => events.push(finalizeCut(p)));
+      }
+    }
+
+    for (let i = activeNotes.length - 1; i >= 0; i--) {
+      const note = activeNotes[i];
+      if (note.hit || note.missed) continue;
+
+      const currentZ = trackZ(note.time, judgeTime, noteSpeed);
+
+      // Miss check (passed player)
+      if (currentZ > MISS_Z) {
+        note.missed = true;
+        // A bomb flying past untouched is the player doing it right
+        if (note.type !== 'bomb') events.push({ type: 'miss', note });
+        activeNotes.splice(i, 1);
+        continue;
+      }
+
+      // Collision check (only if near player)
+      // Widened window for more forgiveness
+      if (currentZ <= PLAYER_Z - 1.5 || currentZ >= PLAYER_Z + 1.0) continue;
+
+      const laneX = LANE_X_POSITIONS[note.lineIndex];
+      const layerY = LAYER_Y_POSITIONS[note.lineLayer];
+
+      // Bombs: either hand touching it triggers the penalty
+      if (note.type === 'bomb') {
+        const touches = (h: HandType, dir: THREE.Vector3 | null) => {
+          const b = blades[h];
+          return b !== null && sweepHits(h, b, laneX, layerY, note.time, judgeTime, delta, dir ? BLADE_BOMB_HIT_RADIUS : BOMB_HIT_RADIUS);
+        };
+        const touched = touches('left', hands.leftDirection) || touches('right', hands.rightDirection);
+        if (touched) {
+          note.hit = true;
+          note.hitTime = time;
+          events.push({ type: 'bomb', note });
+          activeNotes.splice(i, 1);
+        }
+        continue;
+      }
+
+      const hand = note.type as HandType;
+      const handVel = hand === 'left' ? hands.leftVelocity : hands.rightVelocity;
+      const handDir = hand === 'left' ? hands.leftDirection : hands.rightDirection;
+      const handBlade = blades[hand];
+      if (!handBlade) continue;
+      const halfSize = NOTE_SIZE / 2 + (handDir ? BLADE_HIT_PADDING : POINT_HIT_PADDING);
+      if (!sweepHits(hand, handBlade, laneX, layerY, note.time, judgeTime, delta, halfSize)) continue;
+
+      let outcome = CutOutcome.GOOD;
+      const speed = handVel.length();
+
+      // Too slow is a weak cut regardless of direction
+      if (speed < MIN_CUT_SPEED) {
+        outcome = CutOutcome.WEAK;
+      } else if (note.cutDirection !== CutDirection.ANY) {
+        // Direction is only judged in the screen plane
+        const requiredDir = DIRECTION_VECTORS[note.cutDirection];
+        swingDir.set(handVel.x, handVel.y, 0).normalize();
+        if (swingDir.dot(requiredDir) < MIN_DIRECTION_DOT) {
+          outcome = CutOutcome.WRONG_DIRECTION;
+        }
+      }
+
+      // Arrows define the swing direction; dots use the actual swing
+      const history = motionHistory.get(hand);
+      const direction = note.cutDirection !== CutDirection.ANY
+        ? DIRECTION_VECTORS[note.cutDirection].clone()
+        : swingDirection(history, clock);
+      const touch = contactPoint();
+
+      note.hit = true;
+      note.hitTime = time;
+      note.cutOutcome = outcome;
+      note.slice = sliceOf(touch, handVel, direction ?? DOWN);
+      events.push({ type: 'contact', note, outcome });
+
+      pendingCuts.push({
+        note,
+        hand,
+        outcome,
+        speed,
+        timing: judgeTime - note.time,
+        contactClock: clock,
+        direction,
+        preSwing: scorePreSwing(history, clock, direction),
+        accuracy: scoreAccuracy(touch, notePos, direction),
+        position: [notePos.x, notePos.y, PLAYER_Z]
+      });
+      activeNotes.splice(i, 1);
+    }
+
+    lastBlades.left = blades.left;
+    lastBlades.right = blades.right;
+
+    // 3. Walls vs Head
+    // A wall occupies the player's plane from its arrival time until its back face passes
+    if (head) {
+      for (const wall of obstacles) {
+        if (judgeTime < wall.time || judgeTime > wall.time + wall.duration) continue;
+        const b = getObstacleBounds(wall);
+        if (head.x + HEAD_RADIUS > b.minX && head.x - HEAD_RADIUS < b.maxX &&
+            head.y + HEAD_RADIUS > b.minY && head.y - HEAD_RADIUS < b.maxY) {
+          events.push({ type: 'wall', obstacle: wall, damage: WALL_DAMAGE_PER_SECOND * delta });
+          break;
+        }
+      }
+    }
+
+    return events;
+  };
+
+  // Restart judging at song time `from`. Earlier notes still waiting are dropped without a miss,
+  // and pending cuts without a score (flush them first to keep them). A new pass (a new run,
+  // a practice loop) makes the notes from there on fresh again; a rewind keeps the ones already cut.
+  const seek = (from: number, newPass = true) => {
+    lastTime = -Infinity;
+    furthestTime = from;
+    activeNotes.length = 0;
+    pendingCuts = [];
+    motionHistory.clear();
+    lastBlades.left = null;
+    lastBlades.right = null;
+    nextNoteIndex = notes.length;
+    for (let i = 0; i < notes.length; i++) {
+      if (chart[i].time >= from) {
+        if (newPass) notes[i] = { ...chart[i] };
+        nextNoteIndex = Math.min(nextNoteIndex, i);
+      } else if (!notes[i].hit) {
+        notes[i].missed = true;
+      }
+    }
+  };
+
+  // Settle cuts in flight at the furthest time reached, then judge on from there. Steps have
+  // already missed the notes that flew past; the ones still in reach when play stopped are
+  // judged again after the rewind, so a pause never costs the player a note.
+  const rewind = (): EngineEvent[] => {
+    const events = flush();
+    const inReach = notes.filter(n => n.time < furthestTime && !n.hit && !n.missed);
+    seek(Math.min(furthestTime, ...inReach.map(n => n.time)), false);
+    return events;
+  };
+
+  return { notes, step, seek, flush };
+};
+
+export type GameEngine = ReturnType<typeof createGameEngine>;
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { HandType } from '../types';
+
+// Keeps left/right identity of tracked hands across frames. The handedness classifier
+// alone flips when hands cross or one re-enters the frame, so identity follows spatial
+// continuity and the classifier only wins after disagreeing confidently for a while.
+
+export interface HandDetection {
+  position: THREE.Vector3; // World position (x/y are enough for continuity)
+  hand: HandType;          // Player's hand according to the classifier
+  score: number;           // Classifier confidence, 0-1
+}
+
+// Seconds a lost hand's last position still counts for continuity
+const MAX_TRACK_GAP = 0.5;
+// World units a hand plausibly moves between detections; also the cost of starting a new track
+const MAX_MATCH_DISTANCE = 1.5;
+// Classifier confidence needed to argue against continuity
+const LABEL_MIN_SCORE = 0.8;
+// Consecutive confident disagreeing frames before the classifier's labels are adopted.
+// Long enough to ride out the flips while hands cross.
+const LABEL_SWITCH_FRAMES = 30;
+
+export const otherHand = (hand: HandType): HandType => hand === 'left' ? 'right' : 'left';
+
+export const createHandIdentityTracker = () => {
+  const tracks: Record<HandType, { position: THREE.Vector3 | null; seenAt: number }> = {
+    left: { position: null, seenAt: 0 },
+    right: { position: null, seenAt: 0 }
+  };
+  let disagreement = 0;
+
+  // What the classifier alone would say. Two detections with the same (or an unsure)
+  // label are told apart by side: the player's right hand is at world +X.
+  const labelAssignment = (detections: HandDetection[]): HandType[] => {
+    if (detections.length < 2) return detections.map(d => d.hand);
+    const [a, b] = detections;
+    if (a.hand !== b.hand && Math.max(a.score, b.score) >= LABEL_MIN_SCORE) return [a.hand, b.hand];
+    return a.position.x > b.position.x ? ['right', 'left'] : ['left', 'right'];
+  };
+
+  const continuityCost = (detection: HandDetection, hand: HandType, time: number) => {
+    const track = tracks[hand];
+    if (!track.position || time - track.seenAt > MAX_TRACK_GAP) return MAX_MATCH_DISTANCE;
+    return track.position.distanceTo(detection.position);
+  };
+
+  // Assignment (one hand per detection) that moves the hands the least
+  const continuityAssignment = (detections: HandDetection[], time: number): HandType[] => {
+    const candidates: HandType[][] = detections.length === 1 ? [['left'], ['right']] : [['left', 'right'], ['right', 'left']];
+    let best = candidates[0];
+    let bestCost = Infinity;
+    for (const candidate of candidates) {
+      const cost = candidate.reduce((sum, hand, i) => sum + continuityCost(detections[i], hand, time), 0);
+      if (cost < bestCost) {
+        best = candidate;
+        bestCost = cost;
+      }
+    }
+    return best;
+  };
+
+  // Which hand each detection belongs to, in order. `time` is in seconds.
+  const assign = (detections: HandDetection[], time: number): HandType[] => {
+    // The landmarker tracks at most two hands
+    const seen = detections.slice(0, 2);
+    const hasHistory = (['left', 'right'] as const).some(h => tracks[h].position && time - tracks[h].seenAt <= MAX_TRACK_GAP);
+
+    const labels = labelAssignment(seen);
+    let hands = labels;
+    if (hasHistory) {
+      hands = continuityAssignment(seen, time);
+      const confidentlyDisagrees = seen.some((d, i) => d.score >= LABEL_MIN_SCORE && labels[i] !== hands[i]);
+      disagreement = confidentlyDisagrees ? disagreement + 1 : 0;
+      if (disagreement >= LABEL_SWITCH_FRAMES) {
+        hands = labels;
+        disagreement = 0;
+      }
+    } else {
+      disagreement = 0;
+    }
+
+    hands.forEach((hand, i) => {
+      tracks[hand].position = seen[i].position.clone();
+      tracks[hand].seenAt = time;
+    });
+    return hands;
+  };
+
+  const reset = () => {
+    tracks.left.position = null;
+    tracks.right.position = null;
+    disagreement = 0;
+  };
+
+  return { assign, reset };
+};
+
+export type HandIdentityTracker = ReturnType<typeof createHandIdentityTracker>;
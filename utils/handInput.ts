@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { HandPositions } from '../types';
+
+// Play area covered by every input source, in world units
+export const GAME_X_RANGE = 5;
+export const GAME_Y_RANGE = 3.5;
+const Y_OFFSET = 0.8;
+
+// Forward/back reach around the player's neutral hand depth
+const MIN_Z = -1.5;
+const MAX_Z = 1.0;
+
+// Mapping normalized image coordinates (0-1, y down) to the 3D game world.
+// x = 0 is world right, matching the mirrored webcam image. `depth` is the
+// estimated offset from the player's neutral hand depth, negative towards the screen.
+export const mapHandToWorld = (x: number, y: number, depth: number): THREE.Vector3 => {
+  const worldX = (0.5 - x) * GAME_X_RANGE;
+  const worldY = (1.0 - y) * GAME_Y_RANGE - (GAME_Y_RANGE / 2) + Y_OFFSET;
+  const worldZ = THREE.MathUtils.clamp(depth, MIN_Z, MAX_Z);
+
+  return new THREE.Vector3(worldX, Math.max(0.1, worldY), worldZ);
+};
+
+export const createHandPositions = (): HandPositions => ({
+  left: null,
+  right: null,
+  leftVelocity: new THREE.Vector3(),
+  rightVelocity: new THREE.Vector3(),
+  leftDirection: null,
+  rightDirection: null
+});
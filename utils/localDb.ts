@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The app's IndexedDB database, shared by the score history and the song library.
+
+const DB_NAME = 'cyber-blade';
+// 1: scores, 2: songs
+const DB_VERSION = 2;
+
+export type StoreName = 'scores' | 'songs';
+
+const STORES: Record<StoreName, IDBObjectStoreParameters> = {
+  scores: { keyPath: 'id', autoIncrement: true },
+  songs: { keyPath: 'id' }
+};
+
+const request = <T,>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error ?? new Error('Database request failed'));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Local storage is not available in this browser'));
+        return;
+      }
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = () => {
+        for (const [name, options] of Object.entries(STORES)) {
+          if (!open.result.objectStoreNames.contains(name)) open.result.createObjectStore(name, options);
+        }
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error ?? new Error('Could not open the local database'));
+    });
+    // Let a later call retry after a failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const withStore = async <T,>(store: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return request(run(db.transaction(store, mode).objectStore(store)));
+};
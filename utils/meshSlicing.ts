@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+
+// Splits a closed mesh in two along a plane and closes each half with a cap over the
+// cross-section. Used to cut hit notes the way the blade went through them.
+
+export interface SlicedMesh {
+  front: THREE.BufferGeometry; // Side the plane normal points to
+  back: THREE.BufferGeometry;
+  cap: THREE.BufferGeometry;   // Cross-section facing +normal; mirror it for the back half
+}
+
+// Endpoints of cut segments closer than this are the same point
+const WELD_EPSILON = 1e-4;
+
+// Clip a triangle (as a polygon) to the side of the plane where `keep` is positive
+const clipPolygon = (points: THREE.Vector3[], distances: number[], keep: 1 | -1) => {
+  const out: THREE.Vector3[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    const di = distances[i] * keep;
+    const dj = distances[j] * keep;
+    if (di >= 0) out.push(points[i]);
+    if ((di >= 0) !== (dj >= 0)) {
+      out.push(points[i].clone().lerp(points[j], di / (di - dj)));
+    }
+  }
+  return out;
+};
+
+// Fan-triangulate a convex polygon into a flat position array
+const pushFan = (target: number[], polygon: THREE.Vector3[]) => {
+  for (let i = 1; i + 1 < polygon.length; i++) {
+    for (const p of [polygon[0], polygon[i], polygon[i + 1]]) target.push(p.x, p.y, p.z);
+  }
+};
+
+// Join cut segments into closed loops by matching endpoints
+const chainLoops = (segments: [THREE.Vector3, THREE.Vector3][]) => {
+  const key = (p: THREE.Vector3) => `${Math.round(p.x / WELD_EPSILON)},${Math.round(p.y / WELD_EPSILON)},${Math.round(p.z / WELD_EPSILON)}`;
+  const byStart = new Map<string, number[]>();
+  segments.forEach(([a], i) => {
+    const k = key(a);
+    byStart.set(k, [...(byStart.get(k) ?? []), i]);
+  });
+
+  const used = new Set<number>();
+  const loops: THREE.Vector3[][] = [];
+  segments.forEach((_, first) => {
+    if (used.has(first)) return;
+    const loop: THREE.Vector3[] = [];
+    let current: number | undefined = first;
+    while (current !== undefined && !used.has(current)) {
+      used.add(current);
+      loop.push(segments[current][0]);
+      current = (byStart.get(key(segments[current][1])) ?? []).find(i => !used.has(i));
+    }
+    if (loop.length >= 3) loops.push(loop);
+  });
+  return loops;
+};
+
+// Triangulate cross-section loops lying in `plane`, facing along its normal
+const buildCap = (loops: THREE.Vector3[][], plane: THREE.Plane) => {
+  // 2D basis in the plane, with u × v = normal so counter-clockwise faces +normal
+  const u = new THREE.Vector3();
+  const v = new THREE.Vector3();
+  const n = plane.normal;
+  u.set(Math.abs(n.x) < 0.9 ? 1 : 0, Math.abs(n.x) < 0.9 ? 0 : 1, 0).cross(n).normalize();
+  v.crossVectors(n, u);
+
+  const positions: number[] = [];
+  for (const loop of loops) {
+    const contour = loop.map(p => new THREE.Vector2(p.dot(u), p.dot(v)));
+    for (const [a, b, c] of THREE.ShapeUtils.triangulateShape(contour, [])) {
+      // Counter-clockwise in (u, v) faces +normal
+      const ccw = THREE.ShapeUtils.area([contour[a], contour[b], contour[c]]) > 0;
+      for (const i of ccw ? [a, b, c] : [a, c, b]) positions.push(loop[i].x, loop[i].y, loop[i].z);
+    }
+  }
+  return positions;
+};
+
+const toGeometry = (positions: number[]) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  return geometry;
+};
+
+export const sliceMesh = (source: THREE.BufferGeometry, plane: THREE.Plane): SlicedMesh => {
+  const geometry = source.index ? source.toNonIndexed() : source;
+  const position = geometry.getAttribute('position');
+  const front: number[] = [];
+  const back: number[] = [];
+  const segments: [THREE.Vector3, THREE.Vector3][] = [];
+
+  for (let i = 0; i + 2 < position.count; i += 3) {
+    const triangle = [0, 1, 2].map(k => new THREE.Vector3().fromBufferAttribute(position, i + k));
+    const distances = triangle.map(p => plane.distanceToPoint(p));
+
+    if (distances.every(d => d >= 0)) {
+      pushFan(front, triangle);
+      continue;
+    }
+    if (distances.every(d => d < 0)) {
+      pushFan(back, triangle);
+      continue;
+    }
+
+    pushFan(front, clipPolygon(triangle, distances, 1));
+    pushFan(back, clipPolygon(triangle, distances, -1));
+
+    // Where this triangle crosses the plane: from the edge leaving the front to the edge
+    // entering it. Neighbouring triangles share those points, so the segments chain.
+    let exit: THREE.Vector3 | null = null;
+    let entry: THREE.Vector3 | null = null;
+    for (let k = 0; k < 3; k++) {
+      const j = (k + 1) % 3;
+      if ((distances[k] >= 0) === (distances[j] >= 0)) continue;
+      const point = triangle[k].clone().lerp(triangle[j], distances[k] / (distances[k] - distances[j]));
+      if (distances[k] >= 0) exit = point;
+      else entry = point;
+    }
+    if (exit && entry) segments.push([exit, entry]);
+  }
+
+  if (geometry !== source) geometry.dispose();
+
+  return {
+    front: toGeometry(front),
+    back: toGeometry(back),
+    cap: toGeometry(buildCap(chainLoops(segments), plane))
+  };
+};
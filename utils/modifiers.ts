@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CutDirection, HandType, Modifier, NoteData, ObstacleData, SongChart } from '../types';
+import { MODIFIERS } from '../constants';
+
+// Gameplay modifiers: what each one does to the chart, the song speed and the score.
+// The scene and the health handlers read the rest (fading, colors, No Fail) off the active list.
+
+const FASTER_SONG_RATE = 1.2;
+const SLOWER_SONG_RATE = 0.85;
+
+// Modifiers that cannot be combined; picking one drops the others in its group
+const EXCLUSIVE_GROUPS: Modifier[][] = [[Modifier.FASTER_SONG, Modifier.SLOWER_SONG]];
+
+// One Hand keeps this hand's notes; Mirror runs after it, so both together leave the left hand
+const ONE_HAND_KEPT: HandType = 'right';
+
+export const toggleModifier = (active: Modifier[], modifier: Modifier): Modifier[] => {
+  if (active.includes(modifier)) return active.filter(m => m !== modifier);
+  const excluded = EXCLUSIVE_GROUPS.find(group => group.includes(modifier)) ?? [];
+  // Kept in declaration order so records always list them the same way
+  return Object.values(Modifier).filter(m => m === modifier || (active.includes(m) && !excluded.includes(m)));
+};
+
+export const scoreMultiplier = (active: Modifier[]) =>
+  Math.max(0, 1 + active.reduce((sum, m) => sum + MODIFIERS[m].scoreBonus, 0));
+
+export const formatMultiplier = (multiplier: number) => `x${multiplier.toFixed(2)}`;
+
+// Audio playback rate. Notes move with song time, so they speed up and slow down with it.
+export const songSpeed = (active: Modifier[]) =>
+  active.includes(Modifier.FASTER_SONG) ? FASTER_SONG_RATE : active.includes(Modifier.SLOWER_SONG) ? SLOWER_SONG_RATE : 1;
+
+export const formatModifiers = (active: Modifier[]) => active.map(m => MODIFIERS[m].short).join(' ');
+
+const MIRRORED_DIRECTIONS: Record<CutDirection, CutDirection> = {
+  [CutDirection.UP]: CutDirection.UP,
+  [CutDirection.DOWN]: CutDirection.DOWN,
+  [CutDirection.LEFT]: CutDirection.RIGHT,
+  [CutDirection.RIGHT]: CutDirection.LEFT,
+  [CutDirection.UP_LEFT]: CutDirection.UP_RIGHT,
+  [CutDirection.UP_RIGHT]: CutDirection.UP_LEFT,
+  [CutDirection.DOWN_LEFT]: CutDirection.DOWN_RIGHT,
+  [CutDirection.DOWN_RIGHT]: CutDirection.DOWN_LEFT,
+  [CutDirection.ANY]: CutDirection.ANY
+};
+
+const mirrorNote = (note: NoteData): NoteData => ({
+  ...note,
+  lineIndex: 3 - note.lineIndex,
+  type: note.type === 'left' ? 'right' : note.type === 'right' ? 'left' : note.type,
+  cutDirection: MIRRORED_DIRECTIONS[note.cutDirection]
+});
+
+const mirrorObstacle = (wall: ObstacleData): ObstacleData => ({ ...wall, lineIndex: 4 - wall.lineIndex - wall.width });
+
+// The chart as played with the chart-changing modifiers (One Hand, Mirror)
+export const applyModifiers = (chart: SongChart, active: Modifier[]): SongChart => {
+  let { notes, obstacles } = chart;
+  if (active.includes(Modifier.ONE_HAND)) {
+    // Bombs stay; they are no hand's notes
+    notes = notes.filter(n => n.type === 'bomb' || n.type === ONE_HAND_KEPT);
+  }
+  if (active.includes(Modifier.MIRROR)) {
+    notes = notes.map(mirrorNote);
+    obstacles = obstacles.map(mirrorObstacle);
+  }
+  return { notes, obstacles };
+};
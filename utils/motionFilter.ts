@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { HandPositions, HandType, MotionFilterSettings, MotionFilterType } from '../types';
+
+// Smoothing and velocity estimation for hand positions. Every input source feeds its raw
+// samples through here, so sabers get the same filtering whatever drives them.
+// Each filter also predicts a little ahead to offset the latency of tracking.
+
+interface VectorFilter {
+  // Feed a raw sample taken at `time` (seconds)
+  update: (sample: THREE.Vector3, time: number) => void;
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+}
+
+// Derivative cutoff (Hz) for One Euro's speed estimate. The paper's 1 Hz is too slow to
+// catch a swing, and cut judgement depends on its speed.
+const ONE_EURO_D_CUTOFF = 8;
+// Samples closer together than this carry no usable velocity
+const MIN_STEP = 0.001;
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+// Raw samples; velocity from the last two
+const createRawFilter = (): VectorFilter => {
+  let lastTime: number | null = null;
+  const position = new THREE.Vector3();
+  const velocity = new THREE.Vector3();
+
+  const update = (sample: THREE.Vector3, time: number) => {
+    const dt = lastTime === null ? 0 : time - lastTime;
+    if (dt > MIN_STEP) velocity.subVectors(sample, position).divideScalar(dt);
+    position.copy(sample);
+    lastTime = time;
+  };
+
+  return { update, position, velocity };
+};
+
+// One Euro filter (Casiez et al. 2012) on the whole vector: the cutoff follows the hand's
+// speed, so it is steady when still and lags little while swinging.
+const createOneEuroFilter = ({ minCutoff, beta }: MotionFilterSettings): VectorFilter => {
+  let lastTime: number | null = null;
+  const position = new THREE.Vector3();
+  const velocity = new THREE.Vector3();
+  const rawVelocity = new THREE.Vector3();
+  const lastSample = new THREE.Vector3();
+
+  const update = (sample: THREE.Vector3, time: number) => {
+    if (lastTime === null) {
+      position.copy(sample);
+      lastSample.copy(sample);
+      lastTime = time;
+      return;
+    }
+    const dt = time - lastTime;
+    if (dt <= MIN_STEP) return;
+    lastTime = time;
+
+    // Differencing raw samples, not the lagging estimate, keeps swing speed honest
+    rawVelocity.subVectors(sample, lastSample).divideScalar(dt);
+    lastSample.copy(sample);
+    velocity.lerp(rawVelocity, smoothingFactor(ONE_EURO_D_CUTOFF, dt));
+    const cutoff = minCutoff + beta * velocity.length();
+    position.lerp(sample, smoothingFactor(cutoff, dt));
+  };
+
+  return { update, position, velocity };
+};
+
+// Constant-velocity Kalman filter, one independent [position, velocity] state per axis
+const createKalmanFilter = ({ processNoise, measurementNoise }: MotionFilterSettings): VectorFilter => {
+  let lastTime: number | null = null;
+  const position = new THREE.Vector3();
+  const velocity = new THREE.Vector3();
+  // Covariance [pp, pv, vv] per axis
+  const covariance = [0, 1, 2].map(() => [1, 0, 1]);
+  const q = processNoise * processNoise;
+  const r = measurementNoise * measurementNoise;
+
+  const updateAxis = (axis: 0 | 1 | 2, measured: number, dt: number) => {
+    const P = covariance[axis];
+    let p = position.getComponent(axis);
+    let v = velocity.getComponent(axis);
+
+    // Predict: p += v·dt, with white-noise acceleration
+    p += v * dt;
+    const dt2 = dt * dt;
+    const pp = P[0] + 2 * dt * P[1] + dt2 * P[2] + q * dt2 * dt2 / 4;
+    const pv = P[1] + dt * P[2] + q * dt2 * dt / 2;
+    const vv = P[2] + q * dt2;
+
+    // Correct with the measured position
+    const innovation = measured - p;
+    const s = pp + r;
+    const kp = pp / s;
+    const kv = pv / s;
+    p += kp * innovation;
+    v += kv * innovation;
+    P[0] = (1 - kp) * pp;
+    P[1] = (1 - kp) * pv;
+    P[2] = vv - kv * pv;
+
+    position.setComponent(axis, p);
+    velocity.setComponent(axis, v);
+  };
+
+  const update = (sample: THREE.Vector3, time: number) => {
+    if (lastTime === null) {
+      position.copy(sample);
+      velocity.set(0, 0, 0);
+      covariance.forEach(P => { P[0] = r; P[1] = 0; P[2] = 1; });
+      lastTime = time;
+      return;
+    }
+    const dt = time - lastTime;
+    if (dt <= MIN_STEP) return;
+    lastTime = time;
+    updateAxis(0, sample.x, dt);
+    updateAxis(1, sample.y, dt);
+    updateAxis(2, sample.z, dt);
+  };
+
+  return { update, position, velocity };
+};
+
+const createVectorFilter = (settings: MotionFilterSettings): VectorFilter => {
+  switch (settings.type) {
+    case MotionFilterType.ONE_EURO: return createOneEuroFilter(settings);
+    case MotionFilterType.KALMAN: return createKalmanFilter(settings);
+    default: return createRawFilter();
+  }
+};
+
+// Filters for both hands, writing into a HandPositions
+export const createHandFilter = (settings: MotionFilterSettings) => {
+  const filters: Record<HandType, VectorFilter | null> = { left: null, right: null };
+  const lead = settings.predictionMs / 1000;
+
+  // Move a hand to its newly sampled position. A null sample means the hand is not
+  // present; its filter starts over when it comes back.
+  const apply = (hands: HandPositions, hand: HandType, sample: THREE.Vector3 | null, time: number) => {
+    const velocity = hand === 'left' ? hands.leftVelocity : hands.rightVelocity;
+    if (!sample) {
+      filters[hand] = null;
+      hands[hand] = null;
+      velocity.set(0, 0, 0);
+      return;
+    }
+
+    const filter = filters[hand] ?? (filters[hand] = createVectorFilter(settings));
+    filter.update(sample, time);
+    velocity.copy(filter.velocity);
+    hands[hand] = filter.position.clone().addScaledVector(filter.velocity, lead);
+  };
+
+  const reset = () => {
+    filters.left = null;
+    filters.right = null;
+  };
+
+  return { apply, reset };
+};
+
+export type HandFilter = ReturnType<typeof createHandFilter>;
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { NoteData, PracticeSettings, TempoMap } from '../types';
+import { barPosition, beatToSeconds, secondsToBeat } from './tempoMap';
+
+// Practice mode: start part way into a song, loop a range and slow it down.
+// Health is off and nothing is saved; the scene restarts judging at `start` on every pass.
+
+export const PRACTICE_SPEEDS = [0.5, 0.6, 0.75, 0.9, 1];
+
+// Sections offered on the progress bar are this many bars long
+const SECTION_BARS = 8;
+// Seconds of song played before the start, so the player can get set (real time)
+const LEAD_IN = 2;
+
+export interface PracticeSection {
+  bar: number;   // First bar, counted from 1
+  start: number; // Song seconds
+  end: number;
+  notes: number; // Notes for either hand in the section, bombs not counted
+}
+
+export const defaultPractice = (duration: number): PracticeSettings => ({ start: 0, end: duration, loop: false, speed: 1 });
+
+// Where the audio starts (and a loop jumps back to)
+export const practiceAudioStart = (practice: PracticeSettings) => Math.max(0, practice.start - LEAD_IN * practice.speed);
+
+// The song cut into runs of SECTION_BARS bars, following its tempo and meter changes
+export const songSections = (tempo: TempoMap, notes: NoteData[], duration: number): PracticeSection[] => {
+  const starts = [0];
+  const lastBeat = Math.floor(secondsToBeat(tempo, duration));
+  for (let beat = 1; beat <= lastBeat; beat++) {
+    const { bar, beatInBar } = barPosition(tempo, beat);
+    if (beatInBar === 0 && bar % SECTION_BARS === 0) starts.push(beatToSeconds(tempo, beat));
+  }
+  return starts
+    .filter(start => start < duration)
+    .map((start, i, all) => {
+      const end = all[i + 1] ?? duration;
+      return {
+        bar: i * SECTION_BARS + 1,
+        start,
+        end,
+        notes: notes.filter(n => n.type !== 'bomb' && n.time >= start && n.time < end).length
+      };
+    });
+};
+
+// Clicking a section picks it; extending grows the range to cover it as well
+export const selectSection = (practice: PracticeSettings, section: PracticeSection, extend: boolean): PracticeSettings =>
+  extend
+    ? { ...practice, start: Math.min(practice.start, section.start), end: Math.max(practice.end, section.end) }
+    : { ...practice, start: section.start, end: section.end };
+
+export const formatSongTime = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
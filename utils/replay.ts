@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { CutDirection, Difficulty, HandPositions, Modifier, NoteData, ObstacleData, ReplayData, ReplayEvent, ReplayFrame, Theme } from '../types';
+
+export const REPLAY_FORMAT = 'cyber-blade-replay';
+export const REPLAY_VERSION = 1;
+
+const FRAME_STRIDE = 24;
+
+// Recorded values are rounded to 0.1mm / 0.1ms. The live run steps on the rounded
+// values too, so a replay sees exactly the numbers the original session did.
+const PRECISION = 1e4;
+const quantize = (v: number) => Math.round(v * PRECISION) / PRECISION;
+const quantizeVec = (v: THREE.Vector3 | null) => v ? new THREE.Vector3(quantize(v.x), quantize(v.y), quantize(v.z)) : null;
+
+// Snapshot the live inputs for one simulation step
+export const captureFrame = (time: number, clock: number, delta: number, hands: HandPositions, head: THREE.Vector3 | null): ReplayFrame => ({
+  time: quantize(time),
+  clock: quantize(clock),
+  delta: quantize(delta),
+  hands: {
+    left: quantizeVec(hands.left),
+    right: quantizeVec(hands.right),
+    leftVelocity: quantizeVec(hands.leftVelocity) ?? new THREE.Vector3(),
+    rightVelocity: quantizeVec(hands.rightVelocity) ?? new THREE.Vector3(),
+    leftDirection: quantizeVec(hands.leftDirection),
+    rightDirection: quantizeVec(hands.rightDirection)
+  },
+  head: quantizeVec(head)
+});
+
+// Only the chart definition is stored, not per-session hit/miss flags
+const cleanNote = ({ id, time, lineIndex, lineLayer, type, cutDirection }: NoteData): NoteData =>
+  ({ id, time, lineIndex, lineLayer, type, cutDirection });
+
+type ReplayMeta = Pick<ReplayData, 'song' | 'difficulty' | 'modifiers' | 'theme' | 'settings' | 'chart' | 'obstacles'>;
+
+export const createReplayRecorder = (meta: ReplayMeta) => {
+  const frames: (number | null)[] = [];
+  const events: ReplayEvent[] = [];
+
+  const pushVec = (v: THREE.Vector3 | null) => {
+    if (v) frames.push(v.x, v.y, v.z);
+    else frames.push(null, null, null);
+  };
+
+  const recordFrame = (frame: ReplayFrame) => {
+    frames.push(frame.time, frame.clock, frame.delta);
+    pushVec(frame.hands.left);
+    pushVec(frame.hands.right);
+    pushVec(frame.hands.leftVelocity);
+    pushVec(frame.hands.rightVelocity);
+    pushVec(frame.head);
+    pushVec(frame.hands.leftDirection);
+    pushVec(frame.hands.rightDirection);
+  };
+
+  const recordEvent = (event: ReplayEvent) => {
+    events.push(event);
+  };
+
+  const finish = (score: number): ReplayData => ({
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    recordedAt: new Date().toISOString(),
+    ...meta,
+    chart: meta.chart.map(cleanNote),
+    frames: [...frames],
+    events: [...events],
+    score
+  });
+
+  return { recordFrame, recordEvent, finish };
+};
+
+export type ReplayRecorder = ReturnType<typeof createReplayRecorder>;
+
+// Feeds recorded frames back in order as song time advances
+export const createReplayPlayer = (replay: ReplayData) => {
+  const { frames } = replay;
+  const count = frames.length / FRAME_STRIDE;
+  let cursor = 0;
+
+  const readVec = (i: number) => frames[i] === null ? null : new THREE.Vector3(frames[i]!, frames[i + 1]!, frames[i + 2]!);
+
+  const decode = (index: number): ReplayFrame => {
+    const o = index * FRAME_STRIDE;
+    return {
+      time: frames[o]!,
+      clock: frames[o + 1]!,
+      delta: frames[o + 2]!,
+      hands: {
+        left: readVec(o + 3),
+        right: readVec(o + 6),
+        leftVelocity: readVec(o + 9) ?? new THREE.Vector3(),
+        rightVelocity: readVec(o + 12) ?? new THREE.Vector3(),
+        leftDirection: readVec(o + 18),
+        rightDirection: readVec(o + 21)
+      },
+      head: readVec(o + 15)
+    };
+  };
+
+  // Every frame up to `time` that has not been played yet. Returning all of them
+  // (not just the latest) keeps collisions identical at any render frame rate.
+  const framesUntil = (time: number): ReplayFrame[] => {
+    const due: ReplayFrame[] = [];
+    while (cursor < count && frames[cursor * FRAME_STRIDE]! <= time) {
+      due.push(decode(cursor));
+      cursor++;
+    }
+    return due;
+  };
+
+  return { replay, framesUntil, reset: () => { cursor = 0; } };
+};
+
+export type ReplayPlayer = ReturnType<typeof createReplayPlayer>;
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const isOneOf = <T,>(values: readonly T[]) => (v: unknown): v is T => values.includes(v as T);
+
+const isDifficulty = isOneOf(Object.values(Difficulty));
+const isTheme = isOneOf(Object.values(Theme));
+const isModifier = isOneOf(Object.values(Modifier));
+const isNoteType = isOneOf(['left', 'right', 'bomb'] as const);
+const isCutDirection = isOneOf(Object.values(CutDirection).filter((d): d is CutDirection => typeof d === 'number'));
+const isEventKind = isOneOf(['hit', 'miss', 'bomb'] as const);
+
+const isSong = (v: unknown): v is ReplayData['song'] =>
+  isObject(v) && typeof v.id === 'string' && typeof v.title === 'string' && isNumber(v.bpm);
+
+const isSettings = (v: unknown): v is ReplayData['settings'] =>
+  isObject(v) && isNumber(v.audioOffsetMs) && isNumber(v.inputOffsetMs);
+
+const isNote = (v: unknown): v is NoteData =>
+  isObject(v) && typeof v.id === 'string' && isNumber(v.time) && isNumber(v.lineIndex) && isNumber(v.lineLayer) &&
+  isNoteType(v.type) && isCutDirection(v.cutDirection);
+
+const isObstacle = (v: unknown): v is ObstacleData =>
+  isObject(v) && typeof v.id === 'string' && isNumber(v.time) && isNumber(v.duration) &&
+  isNumber(v.lineIndex) && isNumber(v.width) && isNumber(v.lineLayer) && isNumber(v.height);
+
+const isEvent = (v: unknown): v is ReplayEvent =>
+  isObject(v) && isNumber(v.time) && isEventKind(v.kind) && typeof v.noteId === 'string';
+
+const isFrameValue = (v: unknown): v is number | null => v === null || isNumber(v);
+
+export const parseReplay = (input: string | object): ReplayData => {
+  const data: unknown = typeof input === 'string' ? JSON.parse(input) : input;
+
+  if (!isObject(data) || data.format !== REPLAY_FORMAT) {
+    throw new Error('Not a replay file');
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${data.version}`);
+  }
+  const { recordedAt, song, difficulty, modifiers, theme, settings, chart, obstacles, frames, events, score } = data;
+  if (!isSong(song) || !isDifficulty(difficulty) || !isTheme(theme) || !Array.isArray(modifiers) || !modifiers.every(isModifier)) {
+    throw new Error('Replay is missing its song, difficulty, theme or modifiers');
+  }
+  if (!isSettings(settings)) {
+    throw new Error('Replay is missing its timing offsets');
+  }
+  if (!Array.isArray(chart) || !chart.every(isNote) || !Array.isArray(obstacles) || !obstacles.every(isObstacle) ||
+      !Array.isArray(events) || !events.every(isEvent)) {
+    throw new Error('Replay is missing its chart or events');
+  }
+  if (!Array.isArray(frames) || frames.length % FRAME_STRIDE !== 0 || !frames.every(isFrameValue)) {
+    throw new Error('Replay frame data is corrupted');
+  }
+  if (typeof recordedAt !== 'string' || !isNumber(score)) {
+    throw new Error('Replay is missing its result');
+  }
+
+  return { format: REPLAY_FORMAT, version: REPLAY_VERSION, recordedAt, song, difficulty, modifiers, theme, settings, chart, obstacles, frames, events, score };
+};
+
+export const isReplayFile = (input: string) => {
+  try {
+    return JSON.parse(input)?.format === REPLAY_FORMAT;
+  } catch {
+    return false;
+  }
+};
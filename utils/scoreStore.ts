@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Difficulty, Modifier, ScoreRecord } from '../types';
+import { withStore } from './localDb';
+
+// Local score history in IndexedDB, one record per finished run.
+
+export const SCORES_FORMAT = 'cyber-blade-scores';
+const SCORES_VERSION = 1;
+
+export interface ScoreExport {
+  format: typeof SCORES_FORMAT;
+  version: number;
+  exportedAt: string;
+  scores: ScoreRecord[];
+}
+
+export const saveScore = async (record: ScoreRecord): Promise<ScoreRecord> => {
+  const { id: _, ...fields } = record;
+  const id = await withStore('scores', 'readwrite', store => store.add(fields));
+  return { ...fields, id: id as number };
+};
+
+export const loadScores = () => withStore<ScoreRecord[]>('scores', 'readonly', store => store.getAll());
+
+// --- Queries over loaded records ---
+
+const byScore = (a: ScoreRecord, b: ScoreRecord) => b.score - a.score || a.date.localeCompare(b.date);
+
+export const leaderboard = (scores: ScoreRecord[], songId: string, difficulty: Difficulty, limit = 10) =>
+  scores.filter(s => s.songId === songId && s.difficulty === difficulty).sort(byScore).slice(0, limit);
+
+export const personalBest = (scores: ScoreRecord[], songId: string, difficulty: Difficulty): ScoreRecord | null =>
+  leaderboard(scores, songId, difficulty, 1)[0] ?? null;
+
+// --- Moving scores between machines ---
+
+export const exportScores = (scores: ScoreRecord[]): ScoreExport => ({
+  format: SCORES_FORMAT,
+  version: SCORES_VERSION,
+  exportedAt: new Date().toISOString(),
+  scores: scores.map(({ id: _, ...fields }) => fields)
+});
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+
+const isModifier = (m: unknown): m is Modifier => Object.values(Modifier).includes(m as Modifier);
+
+const isScoreRecord = (s: unknown): s is ScoreRecord =>
+  isObject(s) && typeof s.songId === 'string' && typeof s.songTitle === 'string' &&
+  Object.values(Difficulty).includes(s.difficulty as Difficulty) &&
+  Array.isArray(s.modifiers) && s.modifiers.every(isModifier) &&
+  typeof s.score === 'number' && typeof s.maxCombo === 'number' && typeof s.accuracy === 'number' &&
+  typeof s.cleared === 'boolean' && typeof s.date === 'string';
+
+// The same run imported twice (or back onto its own machine) is only stored once
+const runKey = (s: ScoreRecord) => `${s.songId}|${s.difficulty}|${s.date}|${s.score}`;
+
+// Stores the runs from an export that are not stored yet and returns them
+export const importScores = async (input: string, existing: ScoreRecord[]): Promise<ScoreRecord[]> => {
+  const data: unknown = JSON.parse(input);
+  if (!isObject(data) || data.format !== SCORES_FORMAT) {
+    throw new Error('Not a score export');
+  }
+  if (data.version !== SCORES_VERSION) {
+    throw new Error(`Unsupported score export version ${data.version}`);
+  }
+  if (!Array.isArray(data.scores) || !data.scores.every(isScoreRecord)) {
+    throw new Error('Score export is corrupted');
+  }
+  const scores: ScoreRecord[] = data.scores;
+
+  const known = new Set(existing.map(runKey));
+  const added: ScoreRecord[] = [];
+  for (const record of scores) {
+    if (known.has(runKey(record))) continue;
+    known.add(runKey(record));
+    added.push(await saveScore({
+      songId: record.songId,
+      songTitle: record.songTitle,
+      difficulty: record.difficulty,
+      modifiers: record.modifiers,
+      score: record.score,
+      maxCombo: record.maxCombo,
+      accuracy: record.accuracy,
+      cleared: record.cleared,
+      date: record.date
+    }));
+  }
+  return added;
+};
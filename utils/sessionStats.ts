@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CutOutcome, CutScore, HandType, NoteData, NoteResult } from '../types';
+import { MAX_CUT_SCORE } from './cutScoring';
+
+// Per-note log of a run and the analytics on the results screen built from it.
+
+// Accuracy thresholds for letter ranks, best first (as in Beat Saber)
+export const RANKS: { rank: string; minAccuracy: number }[] = [
+  { rank: 'SS', minAccuracy: 0.9 },
+  { rank: 'S', minAccuracy: 0.8 },
+  { rank: 'A', minAccuracy: 0.65 },
+  { rank: 'B', minAccuracy: 0.5 },
+  { rank: 'C', minAccuracy: 0.35 },
+  { rank: 'D', minAccuracy: 0.2 },
+  { rank: 'E', minAccuracy: 0 }
+];
+
+// Timing histogram: bins of TIMING_BIN seconds across ±TIMING_RANGE; outliers go in the end bins
+export const TIMING_BIN = 0.02;
+export const TIMING_RANGE = 0.2;
+
+export interface HandStats {
+  notes: number;
+  hits: number;
+  misses: number;
+  wrongDirection: number;
+  accuracy: number;            // 0-1, as for the whole run
+  meanTiming: number | null;   // Seconds; positive means late on average
+  meanSpeed: number | null;
+}
+
+export interface SessionSummary {
+  notes: number;
+  hits: number;
+  misses: number;
+  accuracy: number; // 0-1: cut points earned out of the maximum for every judged note
+  rank: string;
+  maxCombo: number;
+  fullCombo: boolean;
+  hands: Record<HandType, HandStats>;
+  timingHistogram: number[]; // Counts per bin, earliest first
+  scoreTimeline: { time: number; score: number }[];
+}
+
+// Notes are logged as they are judged; cuts arrive after their follow-through, so the
+// log is not in chart order until it is summarized.
+export const createSessionLog = () => {
+  const results: NoteResult[] = [];
+
+  const recordHit = (note: NoteData, cut: CutScore, points: number, combo: number) => {
+    results.push({
+      noteId: note.id,
+      time: note.time,
+      hand: cut.hand,
+      hit: true,
+      outcome: cut.outcome,
+      cut: cut.total,
+      points,
+      timing: cut.timing,
+      speed: cut.speed,
+      combo
+    });
+  };
+
+  const recordMiss = (note: NoteData) => {
+    results.push({
+      noteId: note.id,
+      time: note.time,
+      hand: note.type as HandType,
+      hit: false,
+      outcome: null,
+      cut: 0,
+      points: 0,
+      timing: null,
+      speed: null,
+      combo: 0
+    });
+  };
+
+  return { recordHit, recordMiss, results };
+};
+
+export type SessionLog = ReturnType<typeof createSessionLog>;
+
+export const rankFor = (accuracy: number) => RANKS.find(r => accuracy >= r.minAccuracy)!.rank;
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+const accuracyOf = (results: NoteResult[]) =>
+  results.length > 0 ? results.reduce((sum, r) => sum + r.cut, 0) / (results.length * MAX_CUT_SCORE) : 0;
+
+const handStats = (results: NoteResult[]): HandStats => {
+  const hits = results.filter(r => r.hit);
+  return {
+    notes: results.length,
+    hits: hits.length,
+    misses: results.length - hits.length,
+    wrongDirection: hits.filter(r => r.outcome === CutOutcome.WRONG_DIRECTION).length,
+    accuracy: accuracyOf(results),
+    meanTiming: mean(hits.map(r => r.timing!)),
+    meanSpeed: mean(hits.map(r => r.speed!))
+  };
+};
+
+export const summarizeSession = (log: NoteResult[]): SessionSummary => {
+  const results = [...log].sort((a, b) => a.time - b.time);
+  const accuracy = accuracyOf(results);
+
+  const binCount = Math.round(2 * TIMING_RANGE / TIMING_BIN);
+  const timingHistogram = new Array<number>(binCount).fill(0);
+  for (const r of results) {
+    if (r.timing === null) continue;
+    const bin = Math.floor((r.timing + TIMING_RANGE) / TIMING_BIN);
+    timingHistogram[Math.min(binCount - 1, Math.max(0, bin))]++;
+  }
+
+  // Points are added in judgement order, so rebuild the running score in song order
+  let score = 0;
+  const scoreTimeline = results.map(r => ({ time: r.time, score: score += r.points }));
+
+  const hits = results.filter(r => r.hit).length;
+  const wrong = results.filter(r => r.outcome === CutOutcome.WRONG_DIRECTION).length;
+  return {
+    notes: results.length,
+    hits,
+    misses: results.length - hits,
+    accuracy,
+    rank: rankFor(accuracy),
+    maxCombo: Math.max(0, ...log.map(r => r.combo)),
+    fullCombo: results.length > 0 && hits === results.length && wrong === 0,
+    hands: {
+      left: handStats(results.filter(r => r.hand === 'left')),
+      right: handStats(results.filter(r => r.hand === 'right'))
+    },
+    timingHistogram,
+    scoreTimeline
+  };
+};
+
+// --- Raw data export ---
+
+const CSV_COLUMNS: (keyof NoteResult)[] = ['noteId', 'time', 'hand', 'hit', 'outcome', 'cut', 'points', 'timing', 'speed', 'combo'];
+
+export const sessionToCsv = (log: NoteResult[]) => {
+  const rows = [...log].sort((a, b) => a.time - b.time).map(r =>
+    CSV_COLUMNS.map(c => {
+      const value = r[c];
+      if (value === null) return '';
+      return typeof value === 'number' && !Number.isInteger(value) ? value.toFixed(4) : String(value);
+    }).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { unzipSync } from 'fflate';
+import { Difficulty, NoteData, Song, SongChart, TempoMap } from '../types';
+import { SONG_URL, SONG_BPM, generateChart, generateObstacles } from '../constants';
+import { parseBeatmap, parseBeatmapObstacles, parseBeatmapTempo } from './beatmap';
+import { generateChartsFromAudio, decodeAudioFile, analyzeAudio, tempoOf } from './autoChart';
+import { constantTempo } from './tempoMap';
+import { withStore } from './localDb';
+
+// The song library: the built-in track plus songs imported from local files, which are
+// kept in IndexedDB. A song can be imported as
+//  - an audio file alone: charts are generated from its analysis
+//  - an audio file with difficulty .dat files (and optionally Info.dat and a cover image)
+//  - a zipped Beat Saber style package holding the same
+
+// Songs are identified by title, so importing a song again replaces it
+export const songIdFor = (title: string) => title.trim().toLowerCase();
+
+const BUILT_IN_TEMPO = constantTempo(SONG_BPM);
+
+export const BUILT_IN_SONG: Song = {
+  id: songIdFor('RACE 2'),
+  title: 'RACE 2',
+  artist: 'Rice Racer',
+  tempo: BUILT_IN_TEMPO,
+  audio: SONG_URL,
+  cover: null,
+  previewStart: 20,
+  charts: Object.fromEntries(Object.values(Difficulty).map(d => [d, { notes: generateChart(d, BUILT_IN_TEMPO), obstacles: generateObstacles(d, BUILT_IN_TEMPO) }])),
+  chartSource: 'generated',
+  builtIn: true
+};
+
+// Beat Saber difficulty names onto ours; harder names win when a package has both
+const DIFFICULTY_NAMES: [string, Difficulty][] = [
+  ['easy', Difficulty.EASY],
+  ['normal', Difficulty.MEDIUM],
+  ['hard', Difficulty.MEDIUM],
+  ['expertplus', Difficulty.HARD],
+  ['expert', Difficulty.HARD]
+];
+
+const AUDIO_EXTENSIONS = ['ogg', 'egg', 'mp3', 'wav', 'm4a', 'aac', 'flac', 'opus', 'webm'];
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp'];
+const MIME_TYPES: Record<string, string> = {
+  ogg: 'audio/ogg', egg: 'audio/ogg', mp3: 'audio/mpeg', wav: 'audio/wav', m4a: 'audio/mp4', aac: 'audio/aac',
+  flac: 'audio/flac', opus: 'audio/ogg', webm: 'audio/webm',
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp'
+};
+
+const extensionOf = (name: string) => name.split('.').pop()!.toLowerCase();
+const baseName = (name: string) => name.split('/').pop()!;
+const stripExtension = (name: string) => baseName(name).replace(/\.[^.]+$/, '');
+
+const isAudio = (file: File) => file.type.startsWith('audio/') || AUDIO_EXTENSIONS.includes(extensionOf(file.name));
+const isImage = (file: File) => file.type.startsWith('image/') || IMAGE_EXTENSIONS.includes(extensionOf(file.name));
+const isInfo = (file: File) => baseName(file.name).toLowerCase() === 'info.dat';
+export const isSongPackage = (file: File) => extensionOf(file.name) === 'zip';
+
+// Whether dropped files should go to the library rather than be loaded as a chart or replay
+export const isSongImport = (files: File[]) => files.some(f => isAudio(f) || isSongPackage(f));
+
+const unpack = async (zip: File): Promise<File[]> => {
+  const entries = unzipSync(new Uint8Array(await zip.arrayBuffer()));
+  return Object.entries(entries)
+    .filter(([name, data]) => !name.endsWith('/') && data.length > 0)
+    .map(([name, data]) => new File([data], baseName(name), { type: MIME_TYPES[extensionOf(name)] ?? '' }));
+};
+
+const difficultyFromName = (name: string) => {
+  const lower = stripExtension(name).toLowerCase();
+  return DIFFICULTY_NAMES.find(([key]) => lower.startsWith(key))?.[1] ?? null;
+};
+
+// The fields of a Beat Saber Info.dat that a song needs
+interface SongInfo {
+  title?: string;
+  artist?: string;
+  bpm?: number;
+  audioFile?: string;
+  coverFile?: string;
+  previewStart?: number;
+  // Difficulty file name to our difficulty, in the order listed
+  charts: [string, Difficulty][];
+}
+
+const readInfo = (text: string): SongInfo => {
+  const data = JSON.parse(text);
+  const charts: [string, Difficulty][] = [];
+  for (const set of data._difficultyBeatmapSets ?? []) {
+    // One-saber, 360° and other modes do not play here
+    if (set._beatmapCharacteristicName && set._beatmapCharacteristicName !== 'Standard') continue;
+    for (const map of set._difficultyBeatmaps ?? []) {
+      const difficulty = difficultyFromName(String(map._difficulty ?? ''));
+      if (difficulty && map._beatmapFilename) charts.push([map._beatmapFilename, difficulty]);
+    }
+  }
+  return {
+    title: data._songName || undefined,
+    artist: data._songAuthorName || undefined,
+    bpm: typeof data._beatsPerMinute === 'number' ? data._beatsPerMinute : undefined,
+    audioFile: data._songFilename,
+    coverFile: data._coverImageFilename,
+    previewStart: typeof data._previewStartTime === 'number' ? data._previewStartTime : undefined,
+    charts
+  };
+};
+
+const parseChart = async (file: File, tempo: TempoMap): Promise<SongChart & { tempo: TempoMap }> => {
+  const text = await file.text();
+  try {
+    return { notes: parseBeatmap(text, tempo), obstacles: parseBeatmapObstacles(text, tempo), tempo: parseBeatmapTempo(text, tempo) };
+  } catch (e: any) {
+    throw new Error(`${file.name}: ${e.message}`);
+  }
+};
+
+// Build a song from the files of one import. Throws when they do not make a playable song.
+export const importSongFiles = async (input: File[]): Promise<Song> => {
+  const files: File[] = [];
+  for (const file of input) {
+    if (isSongPackage(file)) files.push(...await unpack(file));
+    else files.push(file);
+  }
+
+  const byName = (name?: string) => name ? files.find(f => baseName(f.name).toLowerCase() === name.toLowerCase()) : undefined;
+  const infoFile = files.find(isInfo);
+  const info: SongInfo = infoFile ? readInfo(await infoFile.text()) : { charts: [] };
+
+  const audio = byName(info.audioFile) ?? files.find(isAudio);
+  if (!audio) throw new Error('No audio file in the import');
+  const cover = byName(info.coverFile) ?? files.find(isImage) ?? null;
+  const title = info.title ?? stripExtension(audio.name);
+
+  // Charts listed by Info.dat, or difficulty files named after their difficulty
+  const chartFiles = files.filter(f => extensionOf(f.name) === 'dat' && !isInfo(f));
+  let listed: [File, Difficulty][] = info.charts
+    .map(([name, d]) => [byName(name), d] as [File | undefined, Difficulty])
+    .filter((entry): entry is [File, Difficulty] => !!entry[0]);
+  if (listed.length === 0) {
+    listed = chartFiles
+      .map(f => [f, difficultyFromName(f.name)] as [File, Difficulty | null])
+      .filter((entry): entry is [File, Difficulty] => entry[1] !== null);
+  }
+  // A single chart of unknown difficulty is played on every difficulty
+  if (listed.length === 0 && chartFiles.length === 1) {
+    listed = Object.values(Difficulty).map(d => [chartFiles[0], d]);
+  }
+
+  if (listed.length > 0) {
+    // Without an Info.dat the beat grid has to be found in the audio
+    const bpm = info.bpm ?? (await analyzeAudio(await decodeAudioFile(audio))).bpm;
+    const baseTempo = constantTempo(bpm);
+    // BPM changes live in the difficulty files; the song follows the first one's
+    let tempo: TempoMap | null = null;
+    const charts: Partial<Record<Difficulty, SongChart>> = {};
+    for (const [file, difficulty] of listed) {
+      const { tempo: chartTempo, ...chart } = await parseChart(file, baseTempo);
+      tempo ??= chartTempo;
+      charts[difficulty] = chart;
+    }
+    return {
+      id: songIdFor(title),
+      title,
+      artist: info.artist ?? '',
+      tempo: tempo ?? baseTempo,
+      audio,
+      cover,
+      previewStart: info.previewStart ?? 0,
+      charts,
+      chartSource: 'beatmap',
+      builtIn: false
+    };
+  }
+
+  const { analysis, charts } = await generateChartsFromAudio(audio);
+  return {
+    id: songIdFor(title),
+    title,
+    artist: info.artist ?? '',
+    tempo: tempoOf(analysis),
+    audio,
+    cover,
+    // Start the preview a third of the way in, past most intros
+    previewStart: info.previewStart ?? Math.floor(analysis.duration / 3),
+    charts: Object.fromEntries(Object.values(Difficulty).map(d => [d, { notes: charts[d], obstacles: [] }])),
+    chartSource: 'analyzed',
+    builtIn: false
+  };
+};
+
+// --- Storage ---
+
+export const saveSong = async (song: Song) => {
+  await withStore('songs', 'readwrite', store => store.put(song));
+  return song;
+};
+
+export const loadSongs = () => withStore<Song[]>('songs', 'readonly', store => store.getAll());
+
+export const deleteSong = (id: string) => withStore('songs', 'readwrite', store => store.delete(id));
+
+export const difficultiesOf = (song: Song) => Object.values(Difficulty).filter(d => song.charts[d]);
+
+// Whether two charts place the same notes, ignoring ids, order and per-run flags
+export const isSameChart = (a: NoteData[], b: NoteData[]) => {
+  const layout = (notes: NoteData[]) => notes
+    .map(n => `${n.time.toFixed(4)}|${n.lineIndex}|${n.lineLayer}|${n.type}|${n.cutDirection}`)
+    .sort()
+    .join(',');
+  return a.length === b.length && layout(a) === layout(b);
+};
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TempoChange, TempoMap, TimeSignature } from '../types';
+
+// Beat <-> seconds conversion over a song's tempo changes. Charts are authored in beats;
+// everything that runs against the audio clock (note times, the light pulse) goes through here.
+
+const COMMON_TIME: TimeSignature = { beat: 0, numerator: 4, denominator: 4 };
+
+export const constantTempo = (bpm: number, offset = 0): TempoMap => ({
+  offset,
+  tempos: [{ beat: 0, bpm }],
+  signatures: [COMMON_TIME]
+});
+
+// Sort changes, drop invalid ones and make sure both lists start at beat 0
+export const createTempoMap = (bpm: number, changes: TempoChange[] = [], signatures: TimeSignature[] = [], offset = 0): TempoMap => {
+  const valid = (n: number) => typeof n === 'number' && isFinite(n);
+  const tempos = changes
+    .filter(c => valid(c.beat) && c.beat >= 0 && valid(c.bpm) && c.bpm > 0)
+    .sort((a, b) => a.beat - b.beat);
+  if (tempos.length === 0 || tempos[0].beat > 0) tempos.unshift({ beat: 0, bpm });
+
+  const meters = signatures
+    .filter(s => valid(s.beat) && s.beat >= 0 && Number.isInteger(s.numerator) && s.numerator > 0 && Number.isInteger(s.denominator) && s.denominator > 0)
+    .sort((a, b) => a.beat - b.beat);
+  if (meters.length === 0 || meters[0].beat > 0) meters.unshift(COMMON_TIME);
+
+  return { offset, tempos, signatures: meters };
+};
+
+export const isConstantTempo = (map: TempoMap) => map.tempos.every(t => t.bpm === map.tempos[0].bpm);
+
+// Seconds at each tempo change
+const changeTimes = (map: TempoMap) => {
+  const times = [map.offset];
+  for (let i = 1; i < map.tempos.length; i++) {
+    const prev = map.tempos[i - 1];
+    times.push(times[i - 1] + (map.tempos[i].beat - prev.beat) * 60 / prev.bpm);
+  }
+  return times;
+};
+
+export const beatToSeconds = (map: TempoMap, beat: number) => {
+  const times = changeTimes(map);
+  let i = map.tempos.length - 1;
+  // Before beat 0 the first tempo extends backwards
+  while (i > 0 && map.tempos[i].beat > beat) i--;
+  return times[i] + (beat - map.tempos[i].beat) * 60 / map.tempos[i].bpm;
+};
+
+export const secondsToBeat = (map: TempoMap, seconds: number) => {
+  const times = changeTimes(map);
+  let i = map.tempos.length - 1;
+  while (i > 0 && times[i] > seconds) i--;
+  return map.tempos[i].beat + (seconds - times[i]) * map.tempos[i].bpm / 60;
+};
+
+export const bpmAt = (map: TempoMap, beat: number) => {
+  let i = map.tempos.length - 1;
+  while (i > 0 && map.tempos[i].beat > beat) i--;
+  return map.tempos[i].bpm;
+};
+
+// Where a beat falls in the bar structure. `bar` counts from 0, `beatInBar` is fractional.
+export const barPosition = (map: TempoMap, beat: number) => {
+  let bar = 0;
+  for (let i = 0; i < map.signatures.length; i++) {
+    const sig = map.signatures[i];
+    const next = map.signatures[i + 1];
+    if (next && next.beat <= beat) {
+      bar += Math.ceil((next.beat - sig.beat) / sig.numerator);
+      continue;
+    }
+    const sinceStart = Math.max(0, beat - sig.beat);
+    const inSection = Math.floor(sinceStart / sig.numerator);
+    return { bar: bar + inSection, beatInBar: sinceStart - inSection * sig.numerator, numerator: sig.numerator };
+  }
+  return { bar: 0, beatInBar: beat, numerator: COMMON_TIME.numerator };
+};
+
+// Seconds after `seconds` plus a number of beats, following tempo changes on the way
+export const addBeats = (map: TempoMap, seconds: number, beats: number) => beatToSeconds(map, secondsToBeat(map, seconds) + beats);
+
+export const formatBpm = (map: TempoMap) => {
+  const bpms = map.tempos.map(t => t.bpm);
+  const min = Math.min(...bpms);
+  const max = Math.max(...bpms);
+  const round = (v: number) => Number(v.toFixed(1));
+  return min === max ? `${round(min)} BPM` : `${round(min)}-${round(max)} BPM`;
+};
@@ -1,7 +1,35 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// The MediaPipe wasm runtime ships with @mediapipe/tasks-vision, so it is served straight from
+// node_modules in dev and copied into the build, always matching the installed version.
+// The tracking models are not on npm: npm run setup:mediapipe downloads them into public/mediapipe/models.
+const MEDIAPIPE_WASM_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+const MEDIAPIPE_WASM_URL = '/mediapipe/wasm';
+
+const mediapipeWasm = (): Plugin => ({
+  name: 'mediapipe-wasm',
+  configureServer(server) {
+    server.middlewares.use(MEDIAPIPE_WASM_URL, (req, res, next) => {
+      const file = path.join(MEDIAPIPE_WASM_DIR, path.basename((req.url ?? '').split('?')[0]));
+      if (!fs.existsSync(file) || !fs.statSync(file).isFile()) return next();
+      res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+      fs.createReadStream(file).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const file of fs.readdirSync(MEDIAPIPE_WASM_DIR)) {
+      this.emitFile({
+        type: 'asset',
+        fileName: `${MEDIAPIPE_WASM_URL.slice(1)}/${file}`,
+        source: fs.readFileSync(path.join(MEDIAPIPE_WASM_DIR, file))
+      });
+    }
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +37,13 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeWasm()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Self-hosted hand tracking assets (wasm from mediapipeWasm, models from npm run setup:mediapipe); override to serve them elsewhere
+        'process.env.MEDIAPIPE_WASM_PATH': JSON.stringify(env.MEDIAPIPE_WASM_PATH || MEDIAPIPE_WASM_URL),
+        'process.env.MEDIAPIPE_MODEL_PATH': JSON.stringify(env.MEDIAPIPE_MODEL_PATH || '/mediapipe/models')
       },
       resolve: {
         alias: {